@@ -0,0 +1,110 @@
+/**
+ * budget.ts — Cost estimation and spending caps
+ *
+ * Estimates cost from the model catalog's prices (models.ts), and holds the checks
+ * agentLoop uses to wind a turn down (final answer without tools) before a
+ * per-turn or per-session dollar/token cap would be exceeded.
+ */
+
+import { addUsage, type TokenUsage } from "./providers.js";
+import { getModelInfo } from "./models.js";
+
+// ─── Cost Estimation ─────────────────────────────────────
+
+/**
+ * Estimated cost in USD; 0 for models without known rates.
+ * Cached prompt tokens (a subset of inputTokens) are priced at the cache rates.
+ */
+export function estimateCost(model: string, usage: TokenUsage): number {
+  const rate = getModelInfo(model)?.pricing;
+  if (!rate) return 0;
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const cacheWrite = usage.cacheWriteTokens ?? 0;
+  const uncached = usage.inputTokens - cacheRead - cacheWrite;
+  return (
+    (uncached * rate.input +
+      cacheRead * (rate.cacheRead ?? rate.input) +
+      cacheWrite * (rate.cacheWrite ?? rate.input) +
+      usage.outputTokens * rate.output) /
+    1_000_000
+  );
+}
+
+/** Whether cost estimates (and therefore dollar caps) are available for a model */
+export function hasModelRates(model: string): boolean {
+  return !!getModelInfo(model)?.pricing;
+}
+
+// ─── Budgets ─────────────────────────────────────────────
+
+/** Spending cap; either limit may be omitted */
+export interface UsageBudget {
+  /** Maximum estimated cost in USD */
+  maxCostUsd?: number;
+  /** Maximum input + output tokens */
+  maxTokens?: number;
+}
+
+/** Parse a cap from two env values; undefined if neither is a positive number */
+export function parseBudget(
+  rawCost: string | undefined,
+  rawTokens: string | undefined,
+): UsageBudget | undefined {
+  const maxCostUsd = Number(rawCost) || undefined;
+  const maxTokens = Number(rawTokens) || undefined;
+  if (!maxCostUsd && !maxTokens) return undefined;
+  return { maxCostUsd, maxTokens };
+}
+
+export function totalTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens;
+}
+
+/**
+ * Whether usage `spent` plus `upcoming` would go over the budget.
+ * Dollar caps are ignored for models without known rates.
+ */
+export function wouldExceed(
+  model: string,
+  spent: TokenUsage,
+  upcoming: TokenUsage,
+  budget: UsageBudget | undefined,
+): boolean {
+  if (!budget) return false;
+  const projected: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  addUsage(projected, spent);
+  addUsage(projected, upcoming);
+  if (budget.maxTokens !== undefined && totalTokens(projected) > budget.maxTokens) {
+    return true;
+  }
+  if (
+    budget.maxCostUsd !== undefined &&
+    hasModelRates(model) &&
+    estimateCost(model, projected) > budget.maxCostUsd
+  ) {
+    return true;
+  }
+  return false;
+}
+
+/**
+ * What is left of a budget after `spent`, as a budget of its own
+ * (handed to sub-agents so delegated work counts against the parent's cap).
+ */
+export function remainingUsageBudget(
+  model: string,
+  spent: TokenUsage,
+  budget: UsageBudget | undefined,
+): UsageBudget | undefined {
+  if (!budget) return undefined;
+  return {
+    maxCostUsd:
+      budget.maxCostUsd !== undefined
+        ? Math.max(0, budget.maxCostUsd - estimateCost(model, spent))
+        : undefined,
+    maxTokens:
+      budget.maxTokens !== undefined
+        ? Math.max(0, budget.maxTokens - totalTokens(spent))
+        : undefined,
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * compaction.ts — LLM-based conversation history compaction
+ *
+ * Condenses older history (including tool results) into a summary produced by
+ * the active provider, then replaces it with a provider-neutral summary exchange:
+ *   [user: summary of earlier conversation] → [assistant: acknowledgement] → recent turns
+ *
+ * Used by /compact and by automatic compaction when context usage crosses
+ * the configured threshold (COMPACT_THRESHOLD).
+ */
+
+import {
+  type LLMProvider,
+  type ProviderHistory,
+  type TokenUsage,
+  type TranscriptMessage,
+  getContextLimit,
+} from "./providers.js";
+import { chatWithRetry } from "./loop.js";
+import { buildCompactionPrompt } from "./system-prompt.js";
+
+// ─── Configuration ───────────────────────────────────────
+
+/** Max characters kept from a single tool result in the summarization transcript */
+const TOOL_RESULT_MAX_CHARS = 4000;
+
+/** Rough chars-per-token ratio used to keep the transcript within the context window */
+const CHARS_PER_TOKEN = 4;
+
+/** Fraction of the context window the transcript may occupy */
+const TRANSCRIPT_CONTEXT_SHARE = 0.5;
+
+/** Output token budget for the summary */
+const SUMMARY_MAX_TOKENS = 4096;
+
+// ─── Types ───────────────────────────────────────────────
+
+export interface CompactionOptions {
+  /** Number of most recent user exchanges kept verbatim (default 2) */
+  keepTurns?: number;
+  /** Cancels the summarization call */
+  signal?: AbortSignal;
+}
+
+export interface CompactionResult {
+  /** False if history was already too short to compact */
+  compacted: boolean;
+  oldLength: number;
+  newLength: number;
+  /** Number of messages replaced by the summary */
+  summarizedMessages: number;
+  /** Token usage of the summarization call */
+  usage: TokenUsage;
+}
+
+// ─── Safe Cut Points ─────────────────────────────────────
+
+/**
+ * Find indices where a real user message starts a new exchange.
+ * A "safe" cut point ensures we never split a tool call from its results.
+ */
+export function findSafeCutPoints(history: ProviderHistory): number[] {
+  const cutPoints: number[] = [];
+  history._messages.forEach((m, i) => {
+    if (m.role === "user") cutPoints.push(i);
+  });
+  return cutPoints;
+}
+
+// ─── Compaction ──────────────────────────────────────────
+
+/**
+ * Summarize everything before the last `keepTurns` user exchanges and replace it
+ * (in place) with a summary exchange. Returns compacted=false if there is nothing
+ * old enough to summarize.
+ */
+export async function compactHistory(
+  history: ProviderHistory,
+  provider: LLMProvider,
+  model: string,
+  options: CompactionOptions = {},
+): Promise<CompactionResult> {
+  const keepTurns = Math.max(1, options.keepTurns ?? 2);
+  const msgs = history._messages;
+  const oldLength = msgs.length;
+  const cutPoints = findSafeCutPoints(history);
+  const noop: CompactionResult = {
+    compacted: false,
+    oldLength,
+    newLength: oldLength,
+    summarizedMessages: 0,
+    usage: { inputTokens: 0, outputTokens: 0 },
+  };
+
+  if (cutPoints.length <= keepTurns) return noop;
+
+  const keepFrom = cutPoints[cutPoints.length - keepTurns];
+  const older = msgs.slice(0, keepFrom);
+  const recent = msgs.slice(keepFrom);
+
+  const maxChars = Math.floor(
+    getContextLimit(model, provider.name) * CHARS_PER_TOKEN * TRANSCRIPT_CONTEXT_SHARE,
+  );
+  const transcript = renderTranscript(older, maxChars);
+
+  // Summarize with a throwaway history so the real one is untouched until success
+  const summaryHistory = provider.createHistory();
+  provider.pushUserMessage(
+    summaryHistory,
+    `Summarize the following conversation transcript.\n\n<transcript>\n${transcript}\n</transcript>`,
+  );
+  const response = await chatWithRetry(
+    provider,
+    summaryHistory,
+    buildCompactionPrompt(),
+    [],
+    model,
+    SUMMARY_MAX_TOKENS,
+    undefined,
+    options.signal,
+  );
+  const summary = response.text.trim();
+  if (!summary) throw new Error("Summarization returned an empty response");
+
+  const compacted = provider.createHistory();
+  provider.pushUserMessage(
+    compacted,
+    `[System: Summary of the earlier conversation, which was compacted to save context]\n\n${summary}`,
+  );
+  provider.pushAssistantText(
+    compacted,
+    "Understood. I will use this summary of our earlier research, including its cited sources, as context.",
+  );
+  history._messages = [...compacted._messages, ...recent];
+
+  return {
+    compacted: true,
+    oldLength,
+    newLength: history._messages.length,
+    summarizedMessages: older.length,
+    usage: response.usage ?? { inputTokens: 0, outputTokens: 0 },
+  };
+}
+
+// ─── Transcript Rendering ────────────────────────────────
+
+/**
+ * Render transcript messages as plain text for the summarizer.
+ * If the transcript exceeds maxChars, the oldest part is cut.
+ */
+function renderTranscript(messages: TranscriptMessage[], maxChars: number): string {
+  const text = messages.map(renderMessage).join("\n\n");
+  if (text.length <= maxChars) return text;
+  return "[...earliest messages omitted...]\n\n" + text.slice(text.length - maxChars);
+}
+
+function renderMessage(m: TranscriptMessage): string {
+  switch (m.role) {
+    case "user":
+      return `### user\n${m.text}`;
+    case "assistant": {
+      const calls = (m.toolCalls || []).map(
+        (tc) => `[tool call] ${tc.name}(${JSON.stringify(tc.input)})`,
+      );
+      return `### assistant\n${[m.text, ...calls].filter(Boolean).join("\n")}`;
+    }
+    case "tool":
+      return `### tool\n${m.results.map((r) => `[tool result] ${r.name}: ${clip(r.output)}`).join("\n")}`;
+  }
+}
+
+function clip(s: string): string {
+  if (s.length <= TOOL_RESULT_MAX_CHARS) return s;
+  return s.slice(0, TOOL_RESULT_MAX_CHARS) + " …[truncated]";
+}
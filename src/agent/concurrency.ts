@@ -0,0 +1,38 @@
+/**
+ * concurrency.ts — Minimal async concurrency limiter
+ *
+ * Used by the agent loop to run independent tool calls in parallel
+ * without flooding DEVONthink (osascript) or remote APIs.
+ */
+
+/** Run `fn` once a slot is free; resolves/rejects with `fn`'s result */
+export type Limiter = <T>(fn: () => Promise<T>) => Promise<T>;
+
+/**
+ * Create a FIFO limiter that allows at most `concurrency` tasks to run at once.
+ * Values below 1 are treated as 1 (sequential execution).
+ */
+export function createLimiter(concurrency: number): Limiter {
+  const max = Math.max(1, Math.floor(concurrency) || 1);
+  let active = 0;
+  const queue: Array<() => void> = [];
+
+  const next = (): void => {
+    if (active >= max || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return async <T>(fn: () => Promise<T>): Promise<T> => {
+    await new Promise<void>((resolve) => {
+      queue.push(resolve);
+      next();
+    });
+    try {
+      return await fn();
+    } finally {
+      active--;
+      next();
+    }
+  };
+}
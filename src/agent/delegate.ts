@@ -0,0 +1,94 @@
+/**
+ * delegate.ts — Sub-agent delegation (delegate_research tool)
+ *
+ * Runs a child agentLoop with its own history, a focused system prompt and the
+ * research tools only (no further delegation). The child's final text — a
+ * condensed, cited report — becomes the tool result, so raw document text never
+ * enters the parent's context.
+ *
+ * Several delegate_research calls in one response run concurrently through the
+ * parent's tool limiter. The child's usage and failovers are reported through the
+ * caller's callbacks as they happen, so they count even if the child fails.
+ */
+
+import type { LLMProvider } from "./providers.js";
+import { agentLoop, type AgentCallbacks, type AgentConfig } from "./loop.js";
+import { getResearchToolNames } from "./tools.js";
+import { buildDelegatePrompt } from "./system-prompt.js";
+
+// ─── Configuration ───────────────────────────────────────
+
+/** Tool name handled by the agent loop via runDelegatedResearch */
+export const DELEGATE_TOOL_NAME = "delegate_research";
+
+/** Iteration cap for a sub-agent (lower than the parent's default) */
+const DELEGATE_MAX_ITERATIONS = 12;
+
+/**
+ * Concurrency inside each sub-agent. Kept low because several sub-agents
+ * may run at once, each with its own limiters.
+ */
+const DELEGATE_TOOL_CONCURRENCY = 2;
+const DELEGATE_JXA_CONCURRENCY = 1;
+
+// ─── Types ───────────────────────────────────────────────
+
+export interface DelegationOutcome {
+  /** Tool result handed back to the parent model */
+  result: unknown;
+}
+
+// ─── Delegation ──────────────────────────────────────────
+
+/**
+ * Research one subquestion with a child agent.
+ * Errors are returned as { error } results (like other tools); aborts propagate.
+ */
+export async function runDelegatedResearch(
+  input: Record<string, unknown>,
+  provider: LLMProvider,
+  config: AgentConfig,
+  signal?: AbortSignal,
+  callbacks?: Pick<AgentCallbacks, "onUsage" | "onFailover">,
+): Promise<DelegationOutcome> {
+  const question = typeof input.question === "string" ? input.question.trim() : "";
+  if (!question) {
+    return {
+      result: { error: "delegate_research requires a non-empty question" },
+    };
+  }
+  const context = typeof input.context === "string" ? input.context.trim() : "";
+
+  const history = provider.createHistory();
+  provider.pushUserMessage(
+    history,
+    context ? `${question}\n\n<context>\n${context}\n</context>` : question,
+  );
+
+  const childConfig: AgentConfig = {
+    ...config,
+    maxIterations: Math.min(config.maxIterations || 25, DELEGATE_MAX_ITERATIONS),
+    toolConcurrency: DELEGATE_TOOL_CONCURRENCY,
+    jxaConcurrency: DELEGATE_JXA_CONCURRENCY,
+    toolNames: getResearchToolNames(),
+  };
+
+  const child = await agentLoop(
+    history,
+    provider,
+    childConfig,
+    callbacks,
+    buildDelegatePrompt(),
+    signal,
+  );
+
+  return {
+    result: {
+      question,
+      report: child.text,
+      toolCalls: child.toolCalls.length,
+      iterations: child.iterations,
+      ...(child.forcedFinal ? { incomplete: true } : {}),
+    },
+  };
+}
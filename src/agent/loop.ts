@@ -10,22 +10,61 @@
  */
 
 import {
+  type ChatOptions,
+  addUsage,
   type LLMProvider,
   type LLMResponse,
   type ProviderHistory,
   type ProviderName,
+  ProviderError,
   type TokenUsage,
   type ToolDefinition,
+  type ToolImage,
   getDefaultModel,
+  getContextLimit,
+  getProvider,
+  sleep,
+  validateProviderKey,
 } from "./providers.js";
-import { getToolDefinitions, executeTool } from "./tools.js";
-import { buildSystemPrompt } from "./system-prompt.js";
+import { getModelInfo, supportsVision, validateModel } from "./models.js";
+import {
+  getToolDefinitions,
+  executeTool,
+  isJXATool,
+  isVisionTool,
+  toolErrorResult,
+} from "./tools.js";
+import {
+  buildSystemPrompt,
+  buildFinalAnswerInstruction,
+  buildRepetitionNote,
+  buildRepetitionStopInstruction,
+  buildBudgetStopInstruction,
+} from "./system-prompt.js";
+import { createLimiter, type Limiter } from "./concurrency.js";
+import { RepetitionDetector } from "./repetition.js";
+import { ToolResultCache } from "./tool-cache.js";
+import { DELEGATE_TOOL_NAME, runDelegatedResearch } from "./delegate.js";
+import { compactHistory, type CompactionResult } from "./compaction.js";
+import {
+  type UsageBudget,
+  parseBudget,
+  remainingUsageBudget,
+  wouldExceed,
+} from "./budget.js";
+import {
+  getRemainingBudget,
+  getToolResultCap,
+  parseToolResultCaps,
+  serializeWithBudget,
+} from "./result-budget.js";
 
 // ─── Retry Configuration ─────────────────────────────────
 
 const MAX_RETRIES = 5;
 const RETRY_BASE_DELAY_MS = 3000; // 3s, 6s, 12s, 24s, 48s exponential backoff
-const RETRYABLE_STATUS_CODES = [429, 500, 502, 503, 504];
+/** Longest server-requested (Retry-After) wait that is honoured before giving up */
+const MAX_RETRY_AFTER_MS = 60_000;
 
 // ─── Types ───────────────────────────────────────────────
 
@@ -38,15 +77,44 @@ export interface ToolResultEvent {
   name: string;
   result: unknown;
   durationMs: number;
+  /** True if the result came from the session tool cache instead of a fresh call */
+  cached?: boolean;
+}
+
+export interface LoopDetectedEvent {
+  name: string;
+  input: Record<string, unknown>;
+  /** How many times this call (or a near-identical one) has been made this turn */
+  count: number;
+  /** "warn": a corrective note was attached to the result; "stop": tool use was ended */
+  action: "warn" | "stop";
+}
+
+export interface FailoverEvent {
+  fromProvider: ProviderName;
+  fromModel: string;
+  toProvider: ProviderName;
+  toModel: string;
+  /** First line of the error that ended the previous provider */
+  reason: string;
 }
 
 export interface AgentCallbacks {
+  /** Model reasoning text (requires THINKING_BUDGET); streamed as deltas when available */
   onThinking?: (text: string) => void;
   onToolCall?: (event: ToolCallEvent) => void;
   onToolResult?: (event: ToolResultEvent) => void;
   onText?: (text: string) => void;
   /** Streaming: called for each text token as it arrives from the LLM */
   onToken?: (token: string) => void;
+  /** Called when the Agent repeats the same tool call (see REPEAT_CALL_THRESHOLD) */
+  onLoopDetected?: (event: LoopDetectedEvent) => void;
+  /** Called when a failing provider is replaced by the next one in LLM_FALLBACK */
+  onFailover?: (event: FailoverEvent) => void;
+  /** Called when history was compacted because the request exceeded the context window */
+  onCompacted?: (result: CompactionResult) => void;
+  /** Called with the usage of each LLM call as soon as it is spent (also if the run later fails) */
+  onUsage?: (usage: TokenUsage) => void;
 }
 
 export interface AgentResult {
@@ -54,18 +122,75 @@ export interface AgentResult {
   toolCalls: ToolCallEvent[];
   iterations: number;
   usage: TokenUsage;
+  /** Input tokens of the last LLM call — approximates current context window usage */
+  contextTokens: number;
+  /**
+   * True if tool use was ended early (iteration limit or repeated tool calls)
+   * and the answer was synthesized in a final tool-less call (it may be incomplete)
+   */
+  forcedFinal?: boolean;
+  /** Why tool use was ended when forcedFinal is set */
+  forcedReason?: "max_iterations" | "repetition" | "budget";
+  /** Provider switches during this run, in order; the last `to` produced the answer */
+  failovers?: FailoverEvent[];
 }
 
 // ─── Runtime Configuration ───────────────────────────────
 
+/** A provider (and optionally model) in the failover chain */
+export interface FallbackTarget {
+  providerName: ProviderName;
+  /** Defaults to the provider's catalog default */
+  model?: string;
+}
+
 export interface AgentConfig {
   providerName: ProviderName;
   model?: string;
+  /**
+   * Providers tried in order when the current one keeps failing or is out of
+   * quota/overloaded (LLM_FALLBACK); the turn continues on the same history
+   */
+  fallbacks?: FallbackTarget[];
   maxIterations?: number;
   maxTokens?: number;
+  /** Max tool calls executed in parallel within one LLM response (default 4) */
+  toolConcurrency?: number;
+  /**
+   * Max concurrent DEVONthink (JXA) tool calls, applied on top of toolConcurrency
+   * (default 2). The executor's worker pool is sized from JXA_CONCURRENCY as well.
+   */
+  jxaConcurrency?: number;
+  /** Context usage fraction (0-1) that triggers automatic history compaction; 0 disables */
+  compactThreshold?: number;
+  /** Per-tool caps (characters) on serialized results entering history */
+  toolResultCaps?: Record<string, number>;
+  /** Repeats of the same tool call that trigger a corrective note (stopped 2 repeats later); 0 disables */
+  repeatCallThreshold?: number;
+  /** Session-scoped tool result cache (TOOL_CACHE_TTL); shared by all turns using this config */
+  toolCache?: ToolResultCache;
+  /** Restrict the Agent to these tools (default: all); used for sub-agents */
+  toolNames?: string[];
+  /** Reasoning/thinking token budget per LLM call (THINKING_BUDGET); 0 disables */
+  thinkingBudget?: number;
+  /** Spending cap for one agentLoop run (MAX_TURN_COST / MAX_TURN_TOKENS) */
+  turnBudget?: UsageBudget;
+  /** Spending cap for the whole session (MAX_SESSION_COST / MAX_SESSION_TOKENS) */
+  sessionBudget?: UsageBudget;
+  /**
+   * Usage of this session, counted against sessionBudget. The caller keeps it
+   * current through onUsage, so cancelled and failed runs count too.
+   */
+  sessionUsage?: TokenUsage;
 }
 
-const VALID_PROVIDERS: ProviderName[] = ["anthropic", "openai", "gemini"];
+const VALID_PROVIDERS: ProviderName[] = [
+  "anthropic",
+  "openai",
+  "gemini",
+  "local",
+  "mock",
+];
 
 export function getAgentConfig(): AgentConfig {
   const rawProvider = process.env.LLM_PROVIDER || "anthropic";
@@ -76,9 +201,67 @@ export function getAgentConfig(): AgentConfig {
   }
   const providerName = rawProvider as ProviderName;
   const model = process.env.LLM_MODEL || getDefaultModel(providerName);
+  const unusable = validateModel(providerName, model);
+  if (unusable) throw new Error(`Invalid LLM_MODEL: ${unusable}`);
+  const fallbacks = parseFallbacks(process.env.LLM_FALLBACK);
   const maxIterations = Number(process.env.MAX_ITERATIONS) || 25;
   const maxTokens = Number(process.env.MAX_TOKENS) || 4096;
-  return { providerName, model, maxIterations, maxTokens };
+  const toolConcurrency = Number(process.env.TOOL_CONCURRENCY) || 4;
+  const jxaConcurrency = Number(process.env.JXA_CONCURRENCY) || 2;
+  const rawThreshold = process.env.COMPACT_THRESHOLD;
+  const compactThreshold = rawThreshold ? Number(rawThreshold) || 0 : 0.75;
+  const rawRepeat = process.env.REPEAT_CALL_THRESHOLD;
+  const repeatCallThreshold = rawRepeat ? Number(rawRepeat) || 0 : 3;
+  const rawCacheTtl = process.env.TOOL_CACHE_TTL;
+  const toolCacheTtl = rawCacheTtl ? Number(rawCacheTtl) || 0 : 600;
+  const thinkingBudget = Number(process.env.THINKING_BUDGET) || 0;
+  const turnBudget = parseBudget(process.env.MAX_TURN_COST, process.env.MAX_TURN_TOKENS);
+  const sessionBudget = parseBudget(
+    process.env.MAX_SESSION_COST,
+    process.env.MAX_SESSION_TOKENS,
+  );
+  return {
+    providerName,
+    model,
+    fallbacks,
+    maxIterations,
+    maxTokens,
+    toolConcurrency,
+    jxaConcurrency,
+    compactThreshold,
+    toolResultCaps: parseToolResultCaps(process.env.TOOL_RESULT_CAPS),
+    repeatCallThreshold,
+    toolCache: toolCacheTtl > 0 ? new ToolResultCache(toolCacheTtl * 1000) : undefined,
+    thinkingBudget,
+    turnBudget,
+    sessionBudget,
+  };
+}
+
+/**
+ * Parse LLM_FALLBACK: comma-separated "provider" or "provider:model" entries,
+ * e.g. "openai,gemini:gemini-2.5-pro". Only the first ":" separates the model,
+ * so local model tags like "local:llama3.1:8b" work.
+ */
+function parseFallbacks(raw: string | undefined): FallbackTarget[] | undefined {
+  if (!raw?.trim()) return undefined;
+  return raw
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const sep = entry.indexOf(":");
+      const name = sep === -1 ? entry : entry.slice(0, sep);
+      const model = sep === -1 ? undefined : entry.slice(sep + 1) || undefined;
+      if (!VALID_PROVIDERS.includes(name as ProviderName)) {
+        throw new Error(
+          `Invalid LLM_FALLBACK provider "${name}". Must be one of: ${VALID_PROVIDERS.join(", ")}`,
+        );
+      }
+      const unusable = model ? validateModel(name as ProviderName, model) : null;
+      if (unusable) throw new Error(`Invalid LLM_FALLBACK model: ${unusable}`);
+      return { providerName: name as ProviderName, model };
+    });
 }
 
 // ─── Main Loop ───────────────────────────────────────────
@@ -91,6 +274,9 @@ export function getAgentConfig(): AgentConfig {
  * @param config   Runtime configuration
  * @param callbacks Optional event callbacks (for real-time UI feedback)
  * @param systemPromptOverride Optional system prompt override (for /expand and other special modes)
+ * @param signal   Optional abort signal — cancels the in-flight LLM call and tool executions.
+ *                 The loop rejects with the abort reason; the caller is responsible for
+ *                 rolling back history (see snapshotHistory / rollbackHistory).
  */
 export async function agentLoop(
   history: ProviderHistory,
@@ -98,35 +284,60 @@ export async function agentLoop(
   config: AgentConfig,
   callbacks?: AgentCallbacks,
   systemPromptOverride?: string,
+  signal?: AbortSignal,
 ): Promise<AgentResult> {
   const maxIterations = config.maxIterations || 25;
-  const maxTokens = config.maxTokens || 4096;
-  const model = config.model || getDefaultModel(config.providerName);
-  const tools: ToolDefinition[] = getToolDefinitions();
+  // Provider/model in use; replaced when failing over to the next fallback
+  let activeProvider = provider;
+  let providerName = config.providerName;
+  let model = config.model || getDefaultModel(providerName);
+  let maxTokens = outputLimit(model);
+  const fallbacks = (config.fallbacks ?? [])
+    .map((f) => ({
+      providerName: f.providerName,
+      model: f.model || getDefaultModel(f.providerName),
+    }))
+    // Skip the primary itself and providers without a configured key
+    .filter(
+      (f) =>
+        !(f.providerName === providerName && f.model === model) &&
+        !validateProviderKey(f.providerName),
+    );
+  const failovers: FailoverEvent[] = [];
+  let overflowCompacted = false;
+  const tools: ToolDefinition[] = config.toolNames
+    ? getToolDefinitions().filter((t) => config.toolNames!.includes(t.name))
+    : getToolDefinitions();
+  /** Image tools are only offered to vision models (the model can change on failover) */
+  const offeredTools = (): ToolDefinition[] =>
+    supportsVision(model) ? tools : tools.filter((t) => !isVisionTool(t.name));
   const system = systemPromptOverride || buildSystemPrompt();
+  const toolLimit: Limiter = createLimiter(config.toolConcurrency || 4);
+  const jxaLimit: Limiter = createLimiter(config.jxaConcurrency || 2);
+  const repetition = new RepetitionDetector(config.repeatCallThreshold ?? 3);
+  const chatOptions: ChatOptions = {
+    thinkingBudget: config.thinkingBudget,
+    onThinking: callbacks?.onThinking,
+  };
 
   const allToolCalls: ToolCallEvent[] = [];
   const totalUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
   let iterations = 0;
+  let contextTokens = 0;
+  let contextLimit = getContextLimit(model, providerName);
 
   while (iterations < maxIterations) {
+    signal?.throwIfAborted();
     iterations++;
 
-    // 1. Call LLM (with auto-retry: exponential backoff for 429/5xx transient errors)
-    const response = await chatWithRetry(
-      provider,
-      history,
-      system,
-      tools,
-      model,
-      maxTokens,
-      callbacks?.onToken,
-    );
+    // 1. Call LLM (with auto-retry: exponential backoff for 429/5xx transient errors,
+    //    then failover to the next provider in the chain)
+    const response = await chatWithFailover(system, chatOptions);
 
     // Accumulate token usage
     if (response.usage) {
-      totalUsage.inputTokens += response.usage.inputTokens;
-      totalUsage.outputTokens += response.usage.outputTokens;
+      spend(response.usage);
+      contextTokens = response.usage.inputTokens;
     }
 
     // 2. Intermediate text callback
@@ -141,48 +352,168 @@ export async function agentLoop(
         toolCalls: allToolCalls,
         iterations,
         usage: totalUsage,
+        contextTokens,
+        failovers,
       };
     }
 
     // 4. If LLM requests tool use
     if (response.stopReason === "tool_use") {
       // Add assistant's tool_use response to history
-      provider.pushAssistantToolUse(history, response);
+      activeProvider.pushAssistantToolUse(history, response);
+
+      // Execute tools concurrently (all tools are read-only, so calls within
+      // one response are independent). Results keep the original call order.
+      // Each result gets the smaller of its per-tool cap and a fair share of
+      // the context space still free after this response
+      const remainingBudget = getRemainingBudget({
+        contextLimit,
+        contextTokens: contextTokens + (response.usage?.outputTokens ?? 0),
+        reserveTokens: maxTokens,
+        resultCount: response.toolCalls.length,
+      });
+
+      // Check for repeated calls before running anything: a call repeated past
+      // the stop threshold ends tool use for the whole batch
+      const verdicts = response.toolCalls.map((tc) => {
+        const { count, verdict } = repetition.record(tc.name, tc.input);
+        if (verdict !== "ok") {
+          callbacks?.onLoopDetected?.({
+            name: tc.name,
+            input: tc.input,
+            count,
+            action: verdict,
+          });
+        }
+        return { count, verdict };
+      });
+      const stopIndex = verdicts.findIndex((v) => v.verdict === "stop");
+      if (stopIndex !== -1) {
+        const stoppedName = response.toolCalls[stopIndex].name;
+        skipToolCalls(
+          response,
+          `Not executed: repeated ${stoppedName} calls ended tool use for this turn.`,
+        );
+        return synthesizeFinal(
+          buildRepetitionStopInstruction(stoppedName),
+          "[Agent stopped after repeating the same tool call.]",
+          "repetition",
+        );
+      }
+
+      // Wind down while the budget still covers a final answer: another tool
+      // round plus the final call are each estimated at the current context size
+      if (budgetNearlySpent(contextTokens + (response.usage?.outputTokens ?? 0))) {
+        skipToolCalls(response, "Not executed: the usage budget for this turn is spent.");
+        return synthesizeFinal(
+          buildBudgetStopInstruction(),
+          "[Agent stopped because the usage budget was reached.]",
+          "budget",
+        );
+      }
 
-      // Execute each tool sequentially
       const toolResultEntries: Array<{
         toolCallId: string;
         output: string;
-      }> = [];
-
-      for (const tc of response.toolCalls) {
-        const event: ToolCallEvent = {
-          name: tc.name,
-          input: tc.input,
-        };
-        allToolCalls.push(event);
-        callbacks?.onToolCall?.(event);
-
-        const start = Date.now();
-        let result: unknown;
-        try {
-          result = await executeTool(tc.name, tc.input);
-        } catch (err: unknown) {
-          const e = err as Error;
-          result = { error: e.message };
-        }
-        const durationMs = Date.now() - start;
-
-        callbacks?.onToolResult?.({ name: tc.name, result, durationMs });
-
-        toolResultEntries.push({
-          toolCallId: tc.id,
-          output: JSON.stringify(result),
-        });
-      }
+        images?: ToolImage[];
+      }> = await Promise.all(
+        response.toolCalls.map(async (tc, i) => {
+          const event: ToolCallEvent = {
+            name: tc.name,
+            input: tc.input,
+          };
+          allToolCalls.push(event);
+
+          const run = () =>
+            toolLimit(async () => {
+              signal?.throwIfAborted();
+              callbacks?.onToolCall?.(event);
+
+              const start = Date.now();
+              let result: unknown;
+              try {
+                if (
+                  tc.name === DELEGATE_TOOL_NAME &&
+                  tools.some((t) => t.name === tc.name)
+                ) {
+                  // Sub-agent: runs its own loop; each of its calls is spent here as it
+                  // happens, so it counts even if the sub-agent fails or is cancelled.
+                  // Sub-agents spend from what is left of this turn's budget
+                  const outcome = await runDelegatedResearch(
+                    tc.input,
+                    activeProvider,
+                    {
+                      ...config,
+                      providerName,
+                      model,
+                      turnBudget: remainingUsageBudget(
+                        model,
+                        totalUsage,
+                        config.turnBudget,
+                      ),
+                    },
+                    signal,
+                    { onUsage: spend, onFailover: callbacks?.onFailover },
+                  );
+                  result = outcome.result;
+                } else if (isVisionTool(tc.name) && !supportsVision(model)) {
+                  result = {
+                    error: `${model} cannot view images; use get_record_content for the record's text instead`,
+                  };
+                } else {
+                  result = await executeTool(tc.name, tc.input, signal);
+                  config.toolCache?.set(tc.name, tc.input, result);
+                }
+              } catch (err: unknown) {
+                if (signal?.aborted) throw err;
+                result = toolErrorResult(err);
+              }
+              const durationMs = Date.now() - start;
+
+              callbacks?.onToolResult?.({ name: tc.name, result, durationMs });
+              return result;
+            });
+
+          // Cache hits skip the concurrency limiters entirely
+          const hit = config.toolCache?.get(tc.name, tc.input);
+          let result: unknown;
+          if (hit) {
+            callbacks?.onToolCall?.(event);
+            result = hit.result;
+            callbacks?.onToolResult?.({
+              name: tc.name,
+              result,
+              durationMs: 0,
+              cached: true,
+            });
+          } else {
+            // JXA tools wait for a DEVONthink slot before taking a general slot,
+            // so queued JXA calls never block web/semantic tools
+            result = isJXATool(tc.name) ? await jxaLimit(run) : await run();
+          }
+          if (verdicts[i].verdict === "warn") {
+            result = withNote(result, buildRepetitionNote(tc.name, verdicts[i].count));
+          }
+
+          // Images travel as separate content blocks, not inside the JSON text
+          const { rest, images } = splitImages(result);
+          const maxChars = Math.min(
+            getToolResultCap(tc.name, config.toolResultCaps),
+            remainingBudget,
+          );
+          return {
+            toolCallId: tc.id,
+            output: serializeWithBudget(rest, maxChars),
+            images,
+          };
+        }),
+      );
+
+      // A cancelled turn must not leave half-finished tool results in history
+      signal?.throwIfAborted();
 
       // Feed tool results back to LLM
-      provider.pushToolResults(history, toolResultEntries);
+      activeProvider.pushToolResults(history, toolResultEntries);
 
       // Continue loop
       continue;
@@ -197,46 +528,220 @@ export async function agentLoop(
       toolCalls: allToolCalls,
       iterations,
       usage: totalUsage,
+      contextTokens,
+      failovers,
     };
   }
 
-  // Reached maximum iteration limit
-  return {
-    text: "[Agent reached maximum iteration limit and stopped.]",
-    toolCalls: allToolCalls,
-    iterations,
-    usage: totalUsage,
-  };
+  // Reached maximum iteration limit — ask the model to answer with what it has
+  return synthesizeFinal(
+    buildFinalAnswerInstruction(maxIterations),
+    "[Agent reached maximum iteration limit and stopped.]",
+    "max_iterations",
+  );
+
+  /**
+   * LLM call with retry. When the current provider keeps failing (retries
+   * exhausted) or is out of quota/overloaded, switch to the next fallback and
+   * call again on the same (provider-neutral) history.
+   */
+  async function chatWithFailover(
+    systemPrompt: string,
+    options: ChatOptions,
+  ): Promise<LLMResponse> {
+    for (;;) {
+      try {
+        return await chatWithRetry(
+          activeProvider,
+          history,
+          systemPrompt,
+          offeredTools(),
+          model,
+          maxTokens,
+          callbacks?.onToken,
+          signal,
+          options,
+        );
+      } catch (err: unknown) {
+        if (signal?.aborted) throw err;
+        // Context overflow: summarize earlier turns once, then retry on the shorter history
+        if (err instanceof ProviderError && err.kind === "context_length") {
+          if (!overflowCompacted && (await compactOnOverflow())) continue;
+          throw err;
+        }
+        if (!shouldFailOver(err)) throw err;
+        const next = fallbacks.shift();
+        if (!next) throw err;
+
+        const event: FailoverEvent = {
+          fromProvider: providerName,
+          fromModel: model,
+          toProvider: next.providerName,
+          toModel: next.model,
+          reason: (err instanceof Error ? err.message : String(err)).split("\n")[0],
+        };
+        failovers.push(event);
+        callbacks?.onFailover?.(event);
+
+        activeProvider = getProvider(next.providerName);
+        providerName = next.providerName;
+        model = next.model;
+        maxTokens = outputLimit(model);
+        contextLimit = getContextLimit(model, providerName);
+      }
+    }
+  }
+
+  /** Count usage against this run and report it */
+  function spend(usage: TokenUsage): void {
+    addUsage(totalUsage, usage);
+    callbacks?.onUsage?.(usage);
+  }
+
+  /** Compact history after a context-length error; false if nothing could be summarized */
+  async function compactOnOverflow(): Promise<boolean> {
+    overflowCompacted = true;
+    try {
+      const res = await compactHistory(history, activeProvider, model, {
+        keepTurns: 1,
+        signal,
+      });
+      if (!res.compacted) return false;
+      spend(res.usage);
+      callbacks?.onCompacted?.(res);
+      return true;
+    } catch (err: unknown) {
+      if (signal?.aborted) throw err;
+      return false;
+    }
+  }
+
+  /** MAX_TOKENS, but never more output than the model can produce */
+  function outputLimit(forModel: string): number {
+    return Math.min(
+      config.maxTokens || 4096,
+      getModelInfo(forModel)?.maxOutput ?? Infinity,
+    );
+  }
+
+  /** Session usage so far (kept current by the caller's onUsage), else this run's */
+  function sessionSpent(): TokenUsage {
+    return config.sessionUsage ?? totalUsage;
+  }
+
+  /** Whether two more calls of about `nextInputTokens` would break the turn or session cap */
+  function budgetNearlySpent(nextInputTokens: number): boolean {
+    const upcoming: TokenUsage = {
+      inputTokens: nextInputTokens * 2,
+      outputTokens: maxTokens * 2,
+    };
+    return (
+      wouldExceed(model, totalUsage, upcoming, config.turnBudget) ||
+      wouldExceed(model, sessionSpent(), upcoming, config.sessionBudget)
+    );
+  }
+
+  /** Answer a tool_use batch without running it (every tool_use needs a matching result) */
+  function skipToolCalls(response: LLMResponse, reason: string): void {
+    activeProvider.pushToolResults(
+      history,
+      response.toolCalls.map((tc) => ({
+        toolCallId: tc.id,
+        output: JSON.stringify({ error: reason }),
+      })),
+    );
+  }
+
+  /**
+   * End tool use: one last call with tools disabled so the model answers from
+   * the material already in history. Falls back to a fixed message on failure.
+   */
+  async function synthesizeFinal(
+    instruction: string,
+    fallbackText: string,
+    reason: AgentResult["forcedReason"],
+  ): Promise<AgentResult> {
+    signal?.throwIfAborted();
+    let finalText: string;
+    try {
+      const response = await chatWithFailover(system + instruction, {
+        ...chatOptions,
+        toolChoice: "none",
+      });
+      if (response.usage) {
+        spend(response.usage);
+        contextTokens = response.usage.inputTokens;
+      }
+      finalText = response.text || fallbackText;
+    } catch (err: unknown) {
+      if (signal?.aborted) throw err;
+      finalText = fallbackText;
+    }
+
+    return {
+      text: finalText,
+      toolCalls: allToolCalls,
+      iterations,
+      usage: totalUsage,
+      contextTokens,
+      forcedFinal: true,
+      forcedReason: reason,
+      failovers,
+    };
+  }
+}
+
+/** Attach a note to a tool result, keeping object results flat */
+function withNote(result: unknown, note: string): unknown {
+  if (result && typeof result === "object" && !Array.isArray(result)) {
+    return { _note: note, ...(result as Record<string, unknown>) };
+  }
+  return { _note: note, result };
+}
+
+/** Take the `image` field (view_record_image) out of a tool result so it can be sent as an image block */
+function splitImages(result: unknown): { rest: unknown; images?: ToolImage[] } {
+  if (!result || typeof result !== "object" || Array.isArray(result)) {
+    return { rest: result };
+  }
+  const { image, ...rest } = result as Record<string, unknown>;
+  const img = image as ToolImage | undefined;
+  if (!img?.data || !img.mediaType) return { rest: result };
+  return { rest: { ...rest, image: "(attached below)" }, images: [img] };
 }
 
 // ─── LLM Call with Retry ─────────────────────────────────
 
+/** Transient errors (rate limit, overload, network) worth retrying on the same provider */
+function isRetryableError(err: unknown): boolean {
+  return err instanceof ProviderError && err.retryable;
+}
+
 /**
- * Determine if an error is a retryable transient error (429 rate limit, 5xx server errors, etc.).
+ * Errors that move the agent to the next provider in the failover chain:
+ * transient errors that outlasted the retries, and quota/billing errors.
+ * Auth, context-length and invalid-request errors fail fast.
  */
-function isRetryableError(err: unknown): boolean {
-  const msg = err instanceof Error ? err.message : String(err);
-  // HTTP status codes: rate limit (429) and server errors (5xx)
-  const isHttpRetryable = RETRYABLE_STATUS_CODES.some((code) => msg.includes(`${code}`));
-  // Network-level errors: connection reset, timeout, DNS, fetch failures
-  const isNetworkError =
-    msg.includes("overloaded") ||
-    msg.includes("ECONNRESET") ||
-    msg.includes("ETIMEDOUT") ||
-    msg.includes("ENOTFOUND") ||
-    msg.includes("fetch") ||
-    msg.includes("network") ||
-    msg.includes("socket") ||
-    msg.includes("EHOSTUNREACH") ||
-    msg.includes("EAI_AGAIN");
-  return isHttpRetryable || isNetworkError;
+function shouldFailOver(err: unknown): boolean {
+  return isRetryableError(err) || (err instanceof ProviderError && err.kind === "quota");
+}
+
+/** Delay before the next attempt: the server's Retry-After if given, else exponential */
+function retryDelay(err: unknown, attempt: number): number {
+  if (err instanceof ProviderError && err.retryAfterMs !== undefined) {
+    return err.retryAfterMs;
+  }
+  return RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
 }
 
 /**
- * LLM call with exponential backoff retry.
- * Automatically retries up to MAX_RETRIES times for 429/5xx transient errors.
+ * LLM call with retry.
+ * Retries up to MAX_RETRIES times for rate-limit, overload and network errors,
+ * waiting as long as the server asks (Retry-After) or with exponential backoff.
+ * A requested wait above MAX_RETRY_AFTER_MS is not honoured: the error is thrown
+ * so the caller can fail over instead of stalling.
  */
-async function chatWithRetry(
+export async function chatWithRetry(
   provider: LLMProvider,
   history: ProviderHistory,
   system: string,
@@ -244,25 +749,43 @@ async function chatWithRetry(
   model: string,
   maxTokens: number,
   onToken?: (token: string) => void,
+  signal?: AbortSignal,
+  options?: ChatOptions,
 ): Promise<LLMResponse> {
   let lastError: unknown;
+  // Models that cannot stream are called without onToken; their text is emitted in one piece
+  const streamToken = getModelInfo(model)?.streaming === false ? undefined : onToken;
 
   for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
     try {
-      return await provider.chat(history, system, tools, model, maxTokens, onToken);
+      const response = await provider.chat(
+        history,
+        system,
+        tools,
+        model,
+        maxTokens,
+        streamToken,
+        signal,
+        options,
+      );
+      if (onToken && !streamToken && response.text) onToken(response.text);
+      return response;
     } catch (err: unknown) {
       lastError = err;
 
-      if (attempt < MAX_RETRIES && isRetryableError(err)) {
-        const delay = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+      // User cancelled (Ctrl-C) — never retry
+      if (signal?.aborted) throw err;
+
+      const delay = retryDelay(err, attempt);
+      if (attempt < MAX_RETRIES && isRetryableError(err) && delay <= MAX_RETRY_AFTER_MS) {
         const errMsg = err instanceof Error ? err.message : String(err);
         const brief = errMsg.split("\n")[0].slice(0, 80);
         // If we were streaming, add a newline to separate partial output from retry message
         if (onToken) process.stdout.write("\n");
         console.error(
-          `  ⟳ LLM temporarily unavailable (${brief}), retrying in ${delay / 1000}s (${attempt + 1}/${MAX_RETRIES})...`,
+          `  ⟳ LLM temporarily unavailable (${brief}), retrying in ${Math.ceil(delay / 1000)}s (${attempt + 1}/${MAX_RETRIES})...`,
         );
-        await new Promise((resolve) => setTimeout(resolve, delay));
+        await sleep(delay, signal);
         continue;
       }
 
@@ -0,0 +1,175 @@
+/**
+ * models.ts — Model catalog
+ *
+ * Per-model context window, output limit, pricing and capabilities, loaded from
+ * the bundled models.json and merged with an optional user override file:
+ *
+ *   ~/.dt-agent/models.json   (same shape; entries are merged by model id)
+ *
+ * Overrides may add models, change single fields (e.g. prices) of bundled ones,
+ * or change the per-provider default model.
+ */
+
+import { readFileSync, existsSync } from "node:fs";
+import { resolve, dirname } from "node:path";
+import { fileURLToPath } from "node:url";
+import { homedir } from "node:os";
+import type { ProviderName } from "./providers.js";
+
+// ─── Paths ──────────────────────────────────────────────
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+/** Next to package.json (src/agent/ and dist/agent/ are both two levels down) */
+const BUNDLED_PATH = resolve(__dirname, "..", "..", "models.json");
+const USER_PATH = resolve(homedir(), ".dt-agent", "models.json");
+
+// ─── Types ──────────────────────────────────────────────
+
+/** Per-million-token prices (USD) */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Prompt cache reads; defaults to the input price */
+  cacheRead?: number;
+  /** Prompt cache writes; defaults to the input price */
+  cacheWrite?: number;
+}
+
+export interface ModelInfo {
+  id: string;
+  provider: ProviderName;
+  /** Context window in tokens */
+  contextWindow: number;
+  /** Maximum output tokens per response */
+  maxOutput: number;
+  /** Omitted for models without known prices (no cost estimates or dollar caps) */
+  pricing?: ModelPricing;
+  tools: boolean;
+  vision: boolean;
+  streaming: boolean;
+  /** OpenAI models only: "responses" uses the Responses API instead of chat completions */
+  api: "chat" | "responses";
+}
+
+interface CatalogFile {
+  defaults?: Partial<Record<ProviderName, string>>;
+  models?: Record<string, Partial<Omit<ModelInfo, "id">>>;
+}
+
+interface Catalog {
+  defaults: Partial<Record<ProviderName, string>>;
+  models: Map<string, ModelInfo>;
+}
+
+// ─── Loading ────────────────────────────────────────────
+
+let catalog: Catalog | null = null;
+
+/** Load (once) the bundled catalog merged with the user override file */
+function getCatalog(): Catalog {
+  if (catalog) return catalog;
+
+  const bundled = readCatalogFile(BUNDLED_PATH);
+  const user = existsSync(USER_PATH) ? readCatalogFile(USER_PATH) : {};
+
+  const defaults = { ...bundled.defaults, ...user.defaults };
+  const models = new Map<string, ModelInfo>();
+  const ids = new Set([
+    ...Object.keys(bundled.models ?? {}),
+    ...Object.keys(user.models ?? {}),
+  ]);
+  for (const id of ids) {
+    const base = bundled.models?.[id] ?? {};
+    const override = user.models?.[id] ?? {};
+    const merged = {
+      ...base,
+      ...override,
+      pricing:
+        base.pricing || override.pricing
+          ? { ...base.pricing, ...override.pricing }
+          : undefined,
+    };
+    if (!merged.provider || !merged.contextWindow || !merged.maxOutput) {
+      throw new Error(
+        `Model catalog entry "${id}" needs provider, contextWindow and maxOutput (check ${USER_PATH})`,
+      );
+    }
+    models.set(id, {
+      id,
+      provider: merged.provider,
+      contextWindow: merged.contextWindow,
+      maxOutput: merged.maxOutput,
+      pricing: merged.pricing as ModelPricing | undefined,
+      tools: merged.tools ?? true,
+      vision: merged.vision ?? false,
+      streaming: merged.streaming ?? true,
+      api: merged.api ?? "chat",
+    });
+  }
+
+  catalog = { defaults, models };
+  return catalog;
+}
+
+function readCatalogFile(path: string): CatalogFile {
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as CatalogFile;
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Failed to read model catalog ${path}: ${msg}`);
+  }
+}
+
+// ─── Lookup ─────────────────────────────────────────────
+
+/**
+ * Catalog entry for a model id. Dated or tagged variants (e.g. "gpt-4o-2024-08-06",
+ * "llama3.1:8b") fall back to the longest catalog id they start with.
+ */
+export function getModelInfo(model: string): ModelInfo | undefined {
+  const { models } = getCatalog();
+  const exact = models.get(model);
+  if (exact) return exact;
+
+  let best: ModelInfo | undefined;
+  for (const info of models.values()) {
+    const next = model[info.id.length];
+    if (model.startsWith(info.id) && (next === "-" || next === ":")) {
+      if (!best || info.id.length > best.id.length) best = info;
+    }
+  }
+  return best;
+}
+
+/** The catalog's default model for a provider, if one is set */
+export function getCatalogDefault(provider: ProviderName): string | undefined {
+  return getCatalog().defaults[provider];
+}
+
+/** All catalog models, optionally for one provider */
+export function listModels(provider?: ProviderName): ModelInfo[] {
+  const all = [...getCatalog().models.values()];
+  return provider ? all.filter((m) => m.provider === provider) : all;
+}
+
+/**
+ * Why a model cannot drive the agent with this provider, or null if it can.
+ * Uncataloged models are allowed (they use the provider default's limits).
+ */
+export function validateModel(provider: ProviderName, model: string): string | null {
+  const info = getModelInfo(model);
+  if (!info) return null;
+  // Local servers may serve models under any name, including cataloged cloud ids;
+  // the mock ignores the model entirely
+  if (provider !== "local" && provider !== "mock" && info.provider !== provider) {
+    return `${model} belongs to ${info.provider}, not ${provider}`;
+  }
+  if (!info.tools) return `${model} does not support tool calling`;
+  return null;
+}
+
+/** Whether a model accepts image input; uncataloged models are assumed not to */
+export function supportsVision(model: string): boolean {
+  return getModelInfo(model)?.vision === true;
+}
@@ -1,10 +1,16 @@
 /**
  * providers.ts — Multi-LLM Provider abstraction layer
  *
- * Unifies the tool-calling interaction formats of Anthropic / OpenAI / Gemini,
+ * Unifies the tool-calling interaction formats of Anthropic / OpenAI / Gemini
+ * (plus OpenAI-compatible local servers and a scripted offline mock),
  * so loop.ts doesn't need to care about underlying API differences.
+ *
+ * Conversation history is a provider-neutral transcript (user text, assistant
+ * text + tool calls, tool results); each provider maps it to its own message
+ * format at chat() time, so switching providers mid-conversation keeps context.
  */
 
+import { readFileSync } from "node:fs";
 import Anthropic from "@anthropic-ai/sdk";
 import OpenAI from "openai";
 import {
@@ -13,8 +19,16 @@ import {
   type Part as GeminiPart,
   type FunctionDeclaration,
   type FunctionDeclarationSchema,
+  type BaseSchema,
+  type Schema,
   SchemaType,
+  type GenerationConfig,
+  type UsageMetadata,
+  FunctionCallingMode,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
 } from "@google/generative-ai";
+import { getModelInfo, getCatalogDefault } from "./models.js";
 
 // ━━━ Common Interfaces ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
@@ -38,6 +52,66 @@ export interface ToolCallInfo {
 export interface TokenUsage {
   inputTokens: number;
   outputTokens: number;
+  /** Reasoning tokens as reported by OpenAI/Gemini (already included in outputTokens) */
+  thinkingTokens?: number;
+  /** Prompt tokens served from the provider's prompt cache (already included in inputTokens) */
+  cacheReadTokens?: number;
+  /** Prompt tokens written to the prompt cache (already included in inputTokens) */
+  cacheWriteTokens?: number;
+}
+
+/** Add one call's usage to a running total (in place) */
+export function addUsage(total: TokenUsage, usage: TokenUsage | undefined): void {
+  if (!usage) return;
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  if (usage.thinkingTokens) {
+    total.thinkingTokens = (total.thinkingTokens ?? 0) + usage.thinkingTokens;
+  }
+  if (usage.cacheReadTokens) {
+    total.cacheReadTokens = (total.cacheReadTokens ?? 0) + usage.cacheReadTokens;
+  }
+  if (usage.cacheWriteTokens) {
+    total.cacheWriteTokens = (total.cacheWriteTokens ?? 0) + usage.cacheWriteTokens;
+  }
+}
+
+/** Per-call options for LLMProvider.chat */
+export interface ChatOptions {
+  /**
+   * "none" forbids tool calls for this request while still sending the tool
+   * definitions, so histories containing earlier tool calls stay valid.
+   */
+  toolChoice?: "auto" | "none";
+  /**
+   * Reasoning budget in tokens (THINKING_BUDGET); 0 or undefined disables thinking.
+   * Anthropic: extended thinking budget_tokens. OpenAI: mapped to reasoning_effort
+   * for reasoning models. Gemini: thinkingConfig.thinkingBudget.
+   */
+  thinkingBudget?: number;
+  /** Receives reasoning text as it arrives (deltas when streaming, whole blocks otherwise) */
+  onThinking?: (text: string) => void;
+}
+
+/**
+ * Output limit and reasoning budget for one call. The answer gets maxTokens on
+ * top of the budget, but the sum never exceeds the model's catalog maxOutput;
+ * when it would, the budget shrinks (down to minBudget, taking the rest from
+ * the answer). Thinking is dropped (budget 0) when not even that fits.
+ */
+export function fitReasoningBudget(
+  model: string,
+  maxTokens: number,
+  budget: number,
+  minBudget: number = 0,
+): { maxOutput: number; budget: number } {
+  const cap = getModelInfo(model)?.maxOutput ?? Infinity;
+  const noThinking = { maxOutput: Math.min(maxTokens, cap), budget: 0 };
+  if (budget <= 0) return noThinking;
+  const maxOutput = Math.min(maxTokens + budget, cap);
+  const fitted = Math.max(minBudget, Math.min(budget, maxOutput - maxTokens));
+  // The answer needs room after the reasoning
+  return fitted > 0 && fitted < maxOutput ? { maxOutput, budget: fitted } : noThinking;
 }
 
 export interface LLMResponse {
@@ -45,12 +119,99 @@ export interface LLMResponse {
   text: string;
   toolCalls: ToolCallInfo[];
   usage?: TokenUsage;
+  /** Reasoning text returned by the model, if any */
+  thinking?: string;
+  /** Verbatim assistant content for the producing provider (see ProviderData) */
+  providerData?: ProviderData;
+}
+
+// ━━━ Provider Errors ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+export type ProviderErrorKind =
+  | "rate_limit"
+  | "quota"
+  | "overloaded"
+  | "auth"
+  | "context_length"
+  | "invalid_request"
+  | "network";
+
+/**
+ * An LLM API failure, classified from the SDK's error class and HTTP status
+ * so callers can decide on retry, failover or compaction without parsing messages.
+ */
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly provider: string;
+  readonly status?: number;
+  /** Server-requested wait before retrying (Retry-After, Gemini RetryInfo) */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: ProviderErrorKind,
+    message: string,
+    provider: string,
+    details: { status?: number; retryAfterMs?: number; cause?: unknown } = {},
+  ) {
+    super(message, { cause: details.cause });
+    this.name = "ProviderError";
+    this.kind = kind;
+    this.provider = provider;
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  /** Transient failures worth retrying on the same provider */
+  get retryable(): boolean {
+    return (
+      this.kind === "rate_limit" || this.kind === "overloaded" || this.kind === "network"
+    );
+  }
+}
+
+// ━━━ Conversation Transcript ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/**
+ * Provider-specific assistant content kept alongside the neutral fields
+ * (e.g. Anthropic thinking blocks with signatures, Gemini thought signatures).
+ * Only the provider that produced it uses it; others rebuild from the neutral fields.
+ */
+export interface ProviderData {
+  provider: string;
+  content: unknown;
 }
 
+/** Base64 image attached to a tool result (e.g. view_record_image) */
+export interface ToolImage {
+  /** e.g. "image/jpeg" */
+  mediaType: string;
+  data: string;
+}
+
+export interface ToolResultInfo {
+  toolCallId: string;
+  /** Tool name (Gemini matches function responses by name) */
+  name: string;
+  output: string;
+  /** Sent as image content next to the text output (vision models only) */
+  images?: ToolImage[];
+}
+
+/** One provider-neutral transcript entry */
+export type TranscriptMessage =
+  | { role: "user"; text: string }
+  | {
+      role: "assistant";
+      text: string;
+      toolCalls?: ToolCallInfo[];
+      providerData?: ProviderData;
+    }
+  | { role: "tool"; results: ToolResultInfo[] };
+
 /**
  * Provider interface.
- * Each Provider maintains its own message history format,
- * exposing only unified interaction methods externally.
+ * History is a provider-neutral transcript; each Provider converts it
+ * to its own message format when calling its API.
  */
 export interface LLMProvider {
   name: string;
@@ -58,7 +219,10 @@ export interface LLMProvider {
   createHistory(): ProviderHistory;
   /** Append a user message to history */
   pushUserMessage(history: ProviderHistory, text: string): void;
-  /** Send current history to LLM, return unified result. If onToken is provided, stream text. */
+  /**
+   * Send current history to LLM, return unified result. If onToken is provided, stream text.
+   * If signal is aborted, the in-flight request/stream is cancelled and the promise rejects.
+   */
   chat(
     history: ProviderHistory,
     system: string,
@@ -66,87 +230,225 @@ export interface LLMProvider {
     model: string,
     maxTokens: number,
     onToken?: (token: string) => void,
+    signal?: AbortSignal,
+    options?: ChatOptions,
   ): Promise<LLMResponse>;
   /** Add assistant's tool_use response to history */
   pushAssistantToolUse(history: ProviderHistory, response: LLMResponse): void;
   /** Add tool execution results to history */
   pushToolResults(
     history: ProviderHistory,
-    results: Array<{ toolCallId: string; output: string }>,
+    results: Array<{ toolCallId: string; output: string; images?: ToolImage[] }>,
   ): void;
   /** Add assistant's final text response to history */
   pushAssistantText(history: ProviderHistory, text: string): void;
 }
 
-/** Opaque history container */
+/** Conversation history container (provider-neutral; usable with any provider) */
 export interface ProviderHistory {
-  /** Provider name (for mismatch detection) */
-  _provider: string;
-  /** Provider-internal data */
-  _messages: unknown[];
+  _messages: TranscriptMessage[];
 }
 
-// ━━━ Anthropic Provider ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+/** Copy of the messages so far, for rollbackHistory */
+export function snapshotHistory(history: ProviderHistory): TranscriptMessage[] {
+  return [...history._messages];
+}
 
-type AnthropicMessage = Anthropic.Messages.MessageParam;
+/**
+ * Restore history to a snapshot (e.g. after a cancelled turn). A snapshot rather
+ * than a length, because compaction may replace the messages mid-turn.
+ */
+export function rollbackHistory(
+  history: ProviderHistory,
+  snapshot: TranscriptMessage[],
+): void {
+  history._messages = [...snapshot];
+}
 
-class AnthropicProvider implements LLMProvider {
-  name = "anthropic";
-  private client: Anthropic;
+/**
+ * Transcript bookkeeping shared by all providers; subclasses implement request()
+ * by mapping the transcript to their API's message format. chat() wraps it so
+ * every SDK failure surfaces as a ProviderError.
+ */
+abstract class TranscriptProvider implements LLMProvider {
+  abstract name: string;
 
-  constructor() {
-    this.client = new Anthropic();
+  async chat(
+    history: ProviderHistory,
+    system: string,
+    tools: ToolDefinition[],
+    model: string,
+    maxTokens: number,
+    onToken?: (token: string) => void,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse> {
+    try {
+      return await this.request(
+        history,
+        system,
+        tools,
+        model,
+        maxTokens,
+        onToken,
+        signal,
+        options,
+      );
+    } catch (err: unknown) {
+      throw toProviderError(err, this.name);
+    }
   }
 
+  /** One API call for the current transcript */
+  protected abstract request(
+    history: ProviderHistory,
+    system: string,
+    tools: ToolDefinition[],
+    model: string,
+    maxTokens: number,
+    onToken?: (token: string) => void,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse>;
+
   createHistory(): ProviderHistory {
-    return { _provider: "anthropic", _messages: [] as AnthropicMessage[] };
+    return { _messages: [] };
   }
 
   pushUserMessage(history: ProviderHistory, text: string): void {
-    (history._messages as AnthropicMessage[]).push({
-      role: "user",
-      content: text,
+    history._messages.push({ role: "user", text });
+  }
+
+  pushAssistantToolUse(history: ProviderHistory, response: LLMResponse): void {
+    history._messages.push({
+      role: "assistant",
+      text: response.text,
+      toolCalls: response.toolCalls,
+      providerData: response.providerData,
     });
   }
 
-  async chat(
+  pushToolResults(
+    history: ProviderHistory,
+    results: Array<{ toolCallId: string; output: string; images?: ToolImage[] }>,
+  ): void {
+    // Record tool names from the matching calls so every provider can map results
+    const lastAssistant = [...history._messages]
+      .reverse()
+      .find((m) => m.role === "assistant");
+    const calls =
+      lastAssistant?.role === "assistant" ? lastAssistant.toolCalls || [] : [];
+    history._messages.push({
+      role: "tool",
+      results: results.map((r) => ({
+        ...r,
+        name: calls.find((c) => c.id === r.toolCallId)?.name || "unknown",
+      })),
+    });
+  }
+
+  pushAssistantText(history: ProviderHistory, text: string): void {
+    history._messages.push({ role: "assistant", text });
+  }
+}
+
+// ━━━ Anthropic Provider ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+type AnthropicMessage = Anthropic.Messages.MessageParam;
+
+/** Smallest budget_tokens the API accepts for extended thinking */
+const ANTHROPIC_MIN_THINKING_BUDGET = 1024;
+
+/** Prompt cache breakpoint (5-minute TTL, refreshed on every hit) */
+const EPHEMERAL_CACHE = { type: "ephemeral" } as const;
+
+class AnthropicProvider extends TranscriptProvider {
+  name = "anthropic";
+  private client: Anthropic;
+
+  constructor() {
+    super();
+    this.client = new Anthropic();
+  }
+
+  protected async request(
     history: ProviderHistory,
     system: string,
     tools: ToolDefinition[],
     model: string,
     maxTokens: number,
     onToken?: (token: string) => void,
+    signal?: AbortSignal,
+    options?: ChatOptions,
   ): Promise<LLMResponse> {
-    const anthropicTools: Anthropic.Messages.Tool[] = tools.map((t) => ({
+    // Prompt caching: breakpoints after the tools, the system prompt and the latest
+    // history turn, so each agent iteration re-reads the unchanged prefix from cache
+    const anthropicTools: Anthropic.Messages.Tool[] = tools.map((t, i) => ({
       name: t.name,
       description: t.description,
       input_schema: t.input_schema as Anthropic.Messages.Tool["input_schema"],
+      ...(i === tools.length - 1 ? { cache_control: EPHEMERAL_CACHE } : {}),
     }));
 
+    // Extended thinking: budget must be >= 1024 and below max_tokens (which includes it)
+    const { maxOutput, budget } = fitReasoningBudget(
+      model,
+      maxTokens,
+      options?.thinkingBudget
+        ? Math.max(ANTHROPIC_MIN_THINKING_BUDGET, options.thinkingBudget)
+        : 0,
+      ANTHROPIC_MIN_THINKING_BUDGET,
+    );
+
     const params = {
       model,
-      max_tokens: maxTokens,
-      system,
-      tools: anthropicTools,
-      messages: history._messages as AnthropicMessage[],
+      max_tokens: maxOutput,
+      system: [{ type: "text" as const, text: system, cache_control: EPHEMERAL_CACHE }],
+      tools: anthropicTools.length > 0 ? anthropicTools : undefined,
+      tool_choice:
+        options?.toolChoice === "none" && anthropicTools.length > 0
+          ? ({ type: "none" } as const)
+          : undefined,
+      thinking:
+        budget > 0 ? ({ type: "enabled", budget_tokens: budget } as const) : undefined,
+      messages: withCacheBreakpoint(toAnthropicMessages(history._messages)),
     };
 
     let response: Anthropic.Messages.Message;
+    let thinkingStreamed = false;
     if (onToken) {
-      const stream = this.client.messages.stream(params);
+      const stream = this.client.messages.stream(params, { signal });
       stream.on("text", (t) => onToken(t));
+      if (options?.onThinking) {
+        const onThinking = options.onThinking;
+        stream.on("thinking", (delta) => {
+          thinkingStreamed = true;
+          onThinking(delta);
+        });
+      }
       response = await stream.finalMessage();
     } else {
-      response = await this.client.messages.create(params);
+      response = await this.client.messages.create(params, { signal });
     }
 
     const textBlocks = response.content.filter(
       (b): b is Anthropic.Messages.TextBlock => b.type === "text",
     );
     const text = textBlocks.map((b) => b.text).join("");
+    const thinking = response.content
+      .filter((b): b is Anthropic.Messages.ThinkingBlock => b.type === "thinking")
+      .map((b) => b.thinking)
+      .join("\n\n");
+    if (thinking && !thinkingStreamed) options?.onThinking?.(thinking);
+    // input_tokens excludes cached tokens; report the full prompt size as input
+    const cacheReadTokens = response.usage.cache_read_input_tokens || 0;
+    const cacheWriteTokens = response.usage.cache_creation_input_tokens || 0;
     const usage: TokenUsage = {
-      inputTokens: response.usage.input_tokens,
+      inputTokens: response.usage.input_tokens + cacheReadTokens + cacheWriteTokens,
       outputTokens: response.usage.output_tokens,
+      // The API does not report thinking tokens separately (they are in output_tokens)
+      cacheReadTokens: cacheReadTokens || undefined,
+      cacheWriteTokens: cacheWriteTokens || undefined,
     };
 
     if (response.stop_reason === "tool_use") {
@@ -157,76 +459,129 @@ class AnthropicProvider implements LLMProvider {
           name: b.name,
           input: b.input as Record<string, unknown>,
         }));
-      (history as { _rawContent?: unknown })._rawContent = response.content;
-      return { stopReason: "tool_use", text, toolCalls, usage };
+      // Raw content keeps thinking blocks (with signatures) ahead of tool_use,
+      // which the API requires when the tool results are sent back
+      const providerData: ProviderData = {
+        provider: this.name,
+        content: response.content,
+      };
+      return { stopReason: "tool_use", text, toolCalls, usage, thinking, providerData };
     }
 
-    return { stopReason: "end_turn", text, toolCalls: [], usage };
-  }
-
-  pushAssistantToolUse(history: ProviderHistory, _response: LLMResponse): void {
-    const raw = (history as { _rawContent?: unknown })._rawContent;
-    (history._messages as AnthropicMessage[]).push({
-      role: "assistant",
-      content: raw as Anthropic.Messages.ContentBlock[],
-    });
-    delete (history as { _rawContent?: unknown })._rawContent;
+    return { stopReason: "end_turn", text, toolCalls: [], usage, thinking };
   }
+}
 
-  pushToolResults(
-    history: ProviderHistory,
-    results: Array<{ toolCallId: string; output: string }>,
-  ): void {
-    const toolResults: Anthropic.Messages.ToolResultBlockParam[] = results.map((r) => ({
-      type: "tool_result" as const,
-      tool_use_id: r.toolCallId,
-      content: r.output,
-    }));
-    (history._messages as AnthropicMessage[]).push({
-      role: "user",
-      content: toolResults,
-    });
-  }
+/** Map the neutral transcript to Anthropic messages (tool results are user-role blocks) */
+function toAnthropicMessages(messages: TranscriptMessage[]): AnthropicMessage[] {
+  return messages.map((m): AnthropicMessage => {
+    switch (m.role) {
+      case "user":
+        return { role: "user", content: m.text };
+      case "assistant": {
+        if (m.providerData?.provider === "anthropic") {
+          return {
+            role: "assistant",
+            content: m.providerData.content as Anthropic.Messages.ContentBlockParam[],
+          };
+        }
+        if (!m.toolCalls?.length) return { role: "assistant", content: m.text };
+        return {
+          role: "assistant",
+          content: [
+            ...(m.text ? [{ type: "text" as const, text: m.text }] : []),
+            ...m.toolCalls.map((tc) => ({
+              type: "tool_use" as const,
+              id: tc.id,
+              name: tc.name,
+              input: tc.input,
+            })),
+          ],
+        };
+      }
+      case "tool":
+        return {
+          role: "user",
+          content: m.results.map((r) => ({
+            type: "tool_result" as const,
+            tool_use_id: r.toolCallId,
+            content: r.images?.length
+              ? [
+                  { type: "text" as const, text: r.output },
+                  ...r.images.map((img) => ({
+                    type: "image" as const,
+                    source: {
+                      type: "base64" as const,
+                      media_type:
+                        img.mediaType as Anthropic.Messages.Base64ImageSource["media_type"],
+                      data: img.data,
+                    },
+                  })),
+                ]
+              : r.output,
+          })),
+        };
+    }
+  });
+}
 
-  pushAssistantText(history: ProviderHistory, text: string): void {
-    (history._messages as AnthropicMessage[]).push({
-      role: "assistant",
-      content: text,
-    });
+/**
+ * Mark the last message as a cache breakpoint. When a request is sent the whole
+ * history is stable, so the next iteration (same prefix + new turns) reads it from cache.
+ */
+function withCacheBreakpoint(messages: AnthropicMessage[]): AnthropicMessage[] {
+  const last = messages[messages.length - 1];
+  if (!last) return messages;
+  const blocks: Anthropic.Messages.ContentBlockParam[] =
+    typeof last.content === "string"
+      ? [{ type: "text", text: last.content }]
+      : [...last.content];
+  const tail = blocks[blocks.length - 1];
+  // Thinking blocks cannot carry cache_control
+  if (!tail || tail.type === "thinking" || tail.type === "redacted_thinking") {
+    return messages;
   }
+  blocks[blocks.length - 1] = { ...tail, cache_control: EPHEMERAL_CACHE };
+  return [...messages.slice(0, -1), { ...last, content: blocks }];
 }
 
 // ━━━ OpenAI Provider ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 type OpenAIMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
 
-class OpenAIProvider implements LLMProvider {
+class OpenAIProvider extends TranscriptProvider {
   name = "openai";
   private client: OpenAI;
 
-  constructor() {
-    this.client = new OpenAI();
-  }
-
-  createHistory(): ProviderHistory {
-    return { _provider: "openai", _messages: [] as OpenAIMessage[] };
+  /** A custom client points the provider at another OpenAI-compatible server */
+  constructor(client: OpenAI = new OpenAI()) {
+    super();
+    this.client = client;
   }
 
-  pushUserMessage(history: ProviderHistory, text: string): void {
-    (history._messages as OpenAIMessage[]).push({
-      role: "user",
-      content: text,
-    });
-  }
-
-  async chat(
+  protected async request(
     history: ProviderHistory,
     system: string,
     tools: ToolDefinition[],
     model: string,
     maxTokens: number,
     onToken?: (token: string) => void,
+    signal?: AbortSignal,
+    options?: ChatOptions,
   ): Promise<LLMResponse> {
+    if (this.usesResponsesApi(model)) {
+      return this.requestResponses(
+        history,
+        system,
+        tools,
+        model,
+        maxTokens,
+        onToken,
+        signal,
+        options,
+      );
+    }
+
     const openaiTools: OpenAI.Chat.Completions.ChatCompletionTool[] = tools.map((t) => ({
       type: "function" as const,
       function: {
@@ -238,19 +593,42 @@ class OpenAIProvider implements LLMProvider {
 
     const messages: OpenAIMessage[] = [
       { role: "system", content: system },
-      ...(history._messages as OpenAIMessage[]),
+      ...toOpenAIMessages(history._messages),
     ];
+    const toolChoice =
+      options?.toolChoice === "none" && openaiTools.length > 0
+        ? ("none" as const)
+        : undefined;
+
+    // Reasoning models take max_completion_tokens (which includes reasoning tokens)
+    // and a reasoning effort instead of a token budget; reasoning text is not returned
+    const reasoning = isOpenAIReasoningModel(model);
+    const { maxOutput, budget } = fitReasoningBudget(
+      model,
+      maxTokens,
+      reasoning ? options?.thinkingBudget || 0 : 0,
+    );
+    const limits = reasoning
+      ? {
+          max_completion_tokens: maxOutput,
+          reasoning_effort: budget > 0 ? toReasoningEffort(budget) : undefined,
+        }
+      : { max_tokens: maxTokens };
 
     if (onToken) {
       // Streaming mode
-      const stream = await this.client.chat.completions.create({
-        model,
-        max_tokens: maxTokens,
-        messages,
-        tools: openaiTools.length > 0 ? openaiTools : undefined,
-        stream: true,
-        stream_options: { include_usage: true },
-      });
+      const stream = await this.client.chat.completions.create(
+        {
+          model,
+          ...limits,
+          messages,
+          tools: openaiTools.length > 0 ? openaiTools : undefined,
+          tool_choice: toolChoice,
+          stream: true,
+          stream_options: { include_usage: true },
+        },
+        { signal },
+      );
 
       let text = "";
       const tcDeltas = new Map<number, { id: string; name: string; args: string }>();
@@ -262,6 +640,8 @@ class OpenAIProvider implements LLMProvider {
           usage = {
             inputTokens: chunk.usage.prompt_tokens || 0,
             outputTokens: chunk.usage.completion_tokens || 0,
+            thinkingTokens:
+              chunk.usage.completion_tokens_details?.reasoning_tokens || undefined,
           };
         }
         const choice = chunk.choices?.[0];
@@ -297,16 +677,6 @@ class OpenAIProvider implements LLMProvider {
             name: tc.name,
             input: JSON.parse(tc.args || "{}"),
           }));
-        const rawMsg = {
-          role: "assistant" as const,
-          content: text || null,
-          tool_calls: toolCalls.map((tc) => ({
-            id: tc.id,
-            type: "function" as const,
-            function: { name: tc.name, arguments: JSON.stringify(tc.input) },
-          })),
-        };
-        (history as { _rawMsg?: unknown })._rawMsg = rawMsg;
         return { stopReason: "tool_use", text, toolCalls, usage };
       }
 
@@ -314,12 +684,16 @@ class OpenAIProvider implements LLMProvider {
     }
 
     // Non-streaming mode
-    const response = await this.client.chat.completions.create({
-      model,
-      max_tokens: maxTokens,
-      messages,
-      tools: openaiTools.length > 0 ? openaiTools : undefined,
-    });
+    const response = await this.client.chat.completions.create(
+      {
+        model,
+        ...limits,
+        messages,
+        tools: openaiTools.length > 0 ? openaiTools : undefined,
+        tool_choice: toolChoice,
+      },
+      { signal },
+    );
 
     const choice = response.choices[0];
     if (!choice) throw new Error("OpenAI returned no choices");
@@ -328,6 +702,8 @@ class OpenAIProvider implements LLMProvider {
     const usage: TokenUsage = {
       inputTokens: response.usage?.prompt_tokens || 0,
       outputTokens: response.usage?.completion_tokens || 0,
+      thinkingTokens:
+        response.usage?.completion_tokens_details?.reasoning_tokens || undefined,
     };
 
     if (choice.finish_reason === "tool_calls" && choice.message.tool_calls?.length) {
@@ -341,88 +717,535 @@ class OpenAIProvider implements LLMProvider {
           name: tc.function.name,
           input: JSON.parse(tc.function.arguments || "{}"),
         }));
-      (history as { _rawMsg?: unknown })._rawMsg = choice.message;
       return { stopReason: "tool_use", text, toolCalls, usage };
     }
 
     return { stopReason: "end_turn", text, toolCalls: [], usage };
   }
 
-  pushAssistantToolUse(history: ProviderHistory, _response: LLMResponse): void {
-    const raw = (history as { _rawMsg?: unknown })._rawMsg;
-    (history._messages as OpenAIMessage[]).push(
-      raw as OpenAI.Chat.Completions.ChatCompletionAssistantMessageParam,
-    );
-    delete (history as { _rawMsg?: unknown })._rawMsg;
+  /** Models the catalog marks `"api": "responses"` use the Responses API */
+  protected usesResponsesApi(model: string): boolean {
+    return getModelInfo(model)?.api === "responses";
   }
 
-  pushToolResults(
+  /**
+   * Responses API call. Reasoning items come back with each tool_use response and
+   * are replayed on later calls, so reasoning models keep their chain of thought
+   * across tool turns. With OPENAI_RESPONSES_STORE=true the server keeps the
+   * conversation and only the messages since the last stored response are sent.
+   */
+  private async requestResponses(
     history: ProviderHistory,
-    results: Array<{ toolCallId: string; output: string }>,
-  ): void {
-    for (const r of results) {
-      (history._messages as OpenAIMessage[]).push({
-        role: "tool",
-        tool_call_id: r.toolCallId,
-        content: r.output,
+    system: string,
+    tools: ToolDefinition[],
+    model: string,
+    maxTokens: number,
+    onToken?: (token: string) => void,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse> {
+    const store = process.env.OPENAI_RESPONSES_STORE === "true";
+    const messages = history._messages;
+    const chain = store ? findStoredResponse(messages) : undefined;
+
+    const reasoning = isOpenAIReasoningModel(model);
+    const { maxOutput, budget } = fitReasoningBudget(
+      model,
+      maxTokens,
+      reasoning ? options?.thinkingBudget || 0 : 0,
+    );
+    const params: Omit<OpenAI.Responses.ResponseCreateParamsNonStreaming, "stream"> = {
+      model,
+      instructions: system,
+      input: toResponsesInput(messages.slice(chain ? chain.index + 1 : 0)),
+      previous_response_id: chain?.responseId,
+      tools:
+        tools.length > 0
+          ? tools.map((t) => ({
+              type: "function" as const,
+              name: t.name,
+              description: t.description,
+              parameters: t.input_schema,
+              strict: false,
+            }))
+          : undefined,
+      tool_choice:
+        options?.toolChoice === "none" && tools.length > 0 ? "none" : undefined,
+      // Like max_completion_tokens, this includes reasoning tokens
+      max_output_tokens: maxOutput,
+      // Reasoning text is only returned as summaries, and only when asked for
+      reasoning:
+        budget > 0 ? { effort: toReasoningEffort(budget), summary: "auto" } : undefined,
+      store,
+      // Unstored reasoning items can only be replayed in encrypted form
+      include: reasoning && !store ? ["reasoning.encrypted_content"] : undefined,
+    };
+
+    let response: OpenAI.Responses.Response | undefined;
+    if (onToken) {
+      const stream = await this.client.responses.create(
+        { ...params, stream: true },
+        { signal },
+      );
+      for await (const event of stream) {
+        switch (event.type) {
+          case "response.output_text.delta":
+            onToken(event.delta);
+            break;
+          case "response.reasoning_summary_text.delta":
+            options?.onThinking?.(event.delta);
+            break;
+          case "response.completed":
+          case "response.incomplete":
+            response = event.response;
+            break;
+          case "response.failed":
+            throw toResponsesStreamError(
+              event.response.error?.code,
+              event.response.error?.message,
+            );
+          case "error":
+            throw toResponsesStreamError(event.code, event.message);
+        }
+      }
+      if (!response) throw new Error("OpenAI response stream ended without a response");
+    } else {
+      response = await this.client.responses.create(
+        { ...params, stream: false },
+        { signal },
+      );
+    }
+
+    const result = fromResponsesOutput(response, store, messages.length);
+    if (!onToken && result.thinking) options?.onThinking?.(result.thinking);
+    return result;
+  }
+}
+
+/** Map the neutral transcript to OpenAI chat messages (one "tool" message per result) */
+function toOpenAIMessages(messages: TranscriptMessage[]): OpenAIMessage[] {
+  return messages.flatMap((m): OpenAIMessage[] => {
+    switch (m.role) {
+      case "user":
+        return [{ role: "user", content: m.text }];
+      case "assistant":
+        if (!m.toolCalls?.length) return [{ role: "assistant", content: m.text }];
+        return [
+          {
+            role: "assistant",
+            content: m.text || null,
+            tool_calls: m.toolCalls.map((tc) => ({
+              id: tc.id,
+              type: "function" as const,
+              function: { name: tc.name, arguments: JSON.stringify(tc.input) },
+            })),
+          },
+        ];
+      case "tool": {
+        const toolMessages: OpenAIMessage[] = m.results.map((r) => ({
+          role: "tool" as const,
+          tool_call_id: r.toolCallId,
+          content: r.output,
+        }));
+        // Tool messages are text-only; images follow in a user message
+        const images = m.results.flatMap((r) =>
+          (r.images ?? []).map((img) => ({ name: r.name, img })),
+        );
+        if (images.length === 0) return toolMessages;
+        return [
+          ...toolMessages,
+          {
+            role: "user",
+            content: [
+              { type: "text", text: "Images returned by the tool calls above:" },
+              ...images.map(({ img }) => ({
+                type: "image_url" as const,
+                image_url: { url: `data:${img.mediaType};base64,${img.data}` },
+              })),
+            ],
+          },
+        ];
+      }
+    }
+  });
+}
+
+// ─── Responses API mapping ──────────────────────────────
+
+/** Output items of one Responses API call, kept as an assistant message's providerData */
+interface ResponsesData {
+  output: OpenAI.Responses.ResponseOutputItem[];
+  /** Set when the response is stored server-side (OPENAI_RESPONSES_STORE) */
+  responseId?: string;
+  /** Transcript index the assistant message was created at */
+  position: number;
+}
+
+const RESPONSES_DATA = "openai-responses";
+
+/**
+ * Map the neutral transcript to Responses API input items. Assistant turns this
+ * mode produced are replayed verbatim (including reasoning items); others are
+ * rebuilt from the neutral fields. Tool images go inside the function output.
+ */
+function toResponsesInput(messages: TranscriptMessage[]): OpenAI.Responses.ResponseInput {
+  return messages.flatMap((m): OpenAI.Responses.ResponseInputItem[] => {
+    switch (m.role) {
+      case "user":
+        return [{ role: "user", content: m.text }];
+      case "assistant": {
+        if (m.providerData?.provider === RESPONSES_DATA) {
+          const data = m.providerData.content as ResponsesData;
+          return data.output as OpenAI.Responses.ResponseInputItem[];
+        }
+        const items: OpenAI.Responses.ResponseInputItem[] = [];
+        if (m.text) items.push({ role: "assistant", content: m.text });
+        for (const tc of m.toolCalls ?? []) {
+          items.push({
+            type: "function_call",
+            call_id: tc.id,
+            name: tc.name,
+            arguments: JSON.stringify(tc.input),
+          });
+        }
+        return items;
+      }
+      case "tool":
+        return m.results.map((r) => ({
+          type: "function_call_output" as const,
+          call_id: r.toolCallId,
+          output: r.images?.length
+            ? [
+                { type: "input_text" as const, text: r.output },
+                ...r.images.map((img) => ({
+                  type: "input_image" as const,
+                  image_url: `data:${img.mediaType};base64,${img.data}`,
+                  detail: "auto" as const,
+                })),
+              ]
+            : r.output,
+        }));
+    }
+  });
+}
+
+/**
+ * The latest stored response to continue from with previous_response_id, or
+ * undefined when the transcript before it has changed since (e.g. compaction),
+ * in which case the full transcript is sent again.
+ */
+function findStoredResponse(
+  messages: TranscriptMessage[],
+): { index: number; responseId: string } | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const m = messages[i];
+    if (m.role !== "assistant" || m.providerData?.provider !== RESPONSES_DATA) continue;
+    const data = m.providerData.content as ResponsesData;
+    if (!data.responseId || data.position !== i) return undefined;
+    return { index: i, responseId: data.responseId };
+  }
+  return undefined;
+}
+
+function fromResponsesOutput(
+  response: OpenAI.Responses.Response,
+  stored: boolean,
+  position: number,
+): LLMResponse {
+  let text = "";
+  const toolCalls: ToolCallInfo[] = [];
+  const summaries: string[] = [];
+  for (const item of response.output) {
+    if (item.type === "message") {
+      for (const part of item.content) {
+        if (part.type === "output_text") text += part.text;
+      }
+    } else if (item.type === "function_call") {
+      toolCalls.push({
+        id: item.call_id,
+        name: item.name,
+        input: JSON.parse(item.arguments || "{}"),
       });
+    } else if (item.type === "reasoning") {
+      summaries.push(...item.summary.map((s) => s.text));
     }
   }
 
-  pushAssistantText(history: ProviderHistory, text: string): void {
-    (history._messages as OpenAIMessage[]).push({
-      role: "assistant",
-      content: text,
+  const usage: TokenUsage = {
+    inputTokens: response.usage?.input_tokens || 0,
+    outputTokens: response.usage?.output_tokens || 0,
+    thinkingTokens: response.usage?.output_tokens_details?.reasoning_tokens || undefined,
+    cacheReadTokens: response.usage?.input_tokens_details?.cached_tokens || undefined,
+  };
+  const thinking = summaries.join("\n\n") || undefined;
+
+  if (toolCalls.length > 0) {
+    const data: ResponsesData = {
+      output: response.output,
+      responseId: stored ? response.id : undefined,
+      position,
+    };
+    const providerData: ProviderData = { provider: RESPONSES_DATA, content: data };
+    return { stopReason: "tool_use", text, toolCalls, usage, thinking, providerData };
+  }
+  return { stopReason: "end_turn", text, toolCalls: [], usage, thinking };
+}
+
+/** Failures reported inside a Responses stream carry an error code instead of a status */
+function toResponsesStreamError(code: string | null | undefined, message?: string) {
+  const msg = message || "OpenAI response failed";
+  const kind: ProviderErrorKind =
+    code === "rate_limit_exceeded"
+      ? "rate_limit"
+      : code === "server_error" || code === "vector_store_timeout"
+        ? "overloaded"
+        : CONTEXT_LENGTH_PATTERN.test(msg)
+          ? "context_length"
+          : "invalid_request";
+  return new ProviderError(kind, msg, "openai");
+}
+
+/** OpenAI reasoning models (o-series, gpt-5 family) */
+function isOpenAIReasoningModel(model: string): boolean {
+  return /^(o\d|gpt-5)/.test(model);
+}
+
+/** Map a thinking token budget onto OpenAI's coarse reasoning effort levels */
+function toReasoningEffort(budget: number): "low" | "medium" | "high" {
+  if (budget <= 4096) return "low";
+  if (budget <= 16384) return "medium";
+  return "high";
+}
+
+// ━━━ Local Provider (OpenAI-compatible) ━━━━━━━━━━━━━━━━━━
+
+/** Ollama's OpenAI-compatible endpoint; LM Studio and llama.cpp server use other ports */
+const LOCAL_DEFAULT_BASE_URL = "http://localhost:11434/v1";
+
+/**
+ * Any server exposing /v1/chat/completions (Ollama, LM Studio, llama.cpp server).
+ * Reuses OpenAIProvider's request and streaming logic with a different base URL.
+ *
+ * LOCAL_TOOL_MODE=json is for models or servers without native function calling:
+ * tools are described in the system prompt and calls are parsed from a JSON reply.
+ */
+class LocalProvider extends OpenAIProvider {
+  name = "local";
+  private toolMode: "native" | "json";
+
+  constructor() {
+    super(
+      new OpenAI({
+        baseURL: process.env.LOCAL_BASE_URL || LOCAL_DEFAULT_BASE_URL,
+        // Most local servers ignore the key, but the SDK requires one
+        apiKey: process.env.LOCAL_API_KEY || "local",
+      }),
+    );
+    this.toolMode = process.env.LOCAL_TOOL_MODE === "json" ? "json" : "native";
+  }
+
+  /** Local servers only implement chat completions */
+  protected override usesResponsesApi(): boolean {
+    return false;
+  }
+
+  protected async request(
+    history: ProviderHistory,
+    system: string,
+    tools: ToolDefinition[],
+    model: string,
+    maxTokens: number,
+    onToken?: (token: string) => void,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse> {
+    if (this.toolMode === "native") {
+      return super.request(
+        history,
+        system,
+        tools,
+        model,
+        maxTokens,
+        onToken,
+        signal,
+        options,
+      );
+    }
+
+    const useTools = tools.length > 0 && options?.toolChoice !== "none";
+    const jsonHistory: ProviderHistory = {
+      _messages: toJsonToolTranscript(history._messages),
+    };
+
+    // Hold back replies that start like a JSON tool call so raw JSON isn't streamed;
+    // anything else streams through once its first non-space character is seen
+    let pending = "";
+    let holding: boolean | undefined;
+    const filteredToken =
+      onToken && useTools
+        ? (token: string) => {
+            if (holding === false) return onToken(token);
+            pending += token;
+            if (holding === undefined) {
+              const first = pending.trimStart()[0];
+              if (!first) return;
+              holding = first === "{" || first === "`";
+              if (!holding) onToken(pending);
+            }
+          }
+        : onToken;
+
+    const response = await super.request(
+      jsonHistory,
+      useTools ? `${system}\n\n${buildJsonToolPrompt(tools)}` : system,
+      [],
+      model,
+      maxTokens,
+      filteredToken,
+      signal,
+      { ...options, toolChoice: undefined },
+    );
+
+    const calls = useTools ? parseJsonToolCalls(response.text, tools) : [];
+    if (calls.length > 0) {
+      return { ...response, stopReason: "tool_use", text: "", toolCalls: calls };
+    }
+    // Not a tool call after all — release what was held back
+    if (holding && onToken) onToken(pending);
+    return response;
+  }
+}
+
+/**
+ * Rewrite tool calls and results as plain text, for servers that reject
+ * tool-role messages: calls become the JSON the model was asked to emit,
+ * results become a user message.
+ */
+function toJsonToolTranscript(messages: TranscriptMessage[]): TranscriptMessage[] {
+  return messages.map((m): TranscriptMessage => {
+    if (m.role === "assistant" && m.toolCalls?.length) {
+      const calls = m.toolCalls.map((tc) => ({ name: tc.name, arguments: tc.input }));
+      const json = JSON.stringify({ tool_calls: calls });
+      return { role: "assistant", text: m.text ? `${m.text}\n${json}` : json };
+    }
+    if (m.role === "tool") {
+      const blocks = m.results.map(
+        (r) => `<tool_result name="${r.name}">\n${r.output}\n</tool_result>`,
+      );
+      return { role: "user", text: `Tool results:\n${blocks.join("\n")}` };
+    }
+    return m;
+  });
+}
+
+/** System prompt section describing the tools and the JSON call format */
+function buildJsonToolPrompt(tools: ToolDefinition[]): string {
+  const specs = tools.map((t) =>
+    JSON.stringify({
+      name: t.name,
+      description: t.description,
+      parameters: t.input_schema,
+    }),
+  );
+  return `## Tool Calling
+You can call these tools (JSON Schema parameters):
+${specs.join("\n")}
+
+To call tools, reply with ONLY a JSON object and no other text:
+{"tool_calls": [{"name": "<tool name>", "arguments": {...}}]}
+Several calls may be listed at once. Results arrive in the next user message.
+When you have enough information, reply with the final answer in plain text (no JSON).`;
+}
+
+/** Parse {"tool_calls": [...]} (or a single {"name", "arguments"}) from a reply; [] if none */
+function parseJsonToolCalls(text: string, tools: ToolDefinition[]): ToolCallInfo[] {
+  const body = text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, "").trim();
+  if (!body.startsWith("{")) return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return [];
+  }
+  if (!parsed || typeof parsed !== "object") return [];
+  const obj = parsed as Record<string, unknown>;
+  const rawCalls = Array.isArray(obj.tool_calls) ? obj.tool_calls : [obj];
+
+  const known = new Set(tools.map((t) => t.name));
+  const stamp = Date.now().toString(36);
+  const calls: ToolCallInfo[] = [];
+  for (const raw of rawCalls) {
+    if (!raw || typeof raw !== "object") continue;
+    const { name, arguments: args } = raw as Record<string, unknown>;
+    if (typeof name !== "string" || !known.has(name)) continue;
+    calls.push({
+      id: `json-tc-${stamp}-${calls.length}`,
+      name,
+      input: args && typeof args === "object" ? (args as Record<string, unknown>) : {},
     });
   }
+  return calls;
 }
 
 // ━━━ Gemini Provider ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-class GeminiProvider implements LLMProvider {
+/** Gemini part fields used by thinking models that the SDK's Part type lacks */
+type GeminiThinkingPart = {
+  text?: string;
+  thought?: boolean;
+  thoughtSignature?: string;
+  functionCall?: { name: string; args: object };
+};
+
+class GeminiProvider extends TranscriptProvider {
   name = "gemini";
   private client: GoogleGenerativeAI;
 
   constructor() {
+    super();
     const key = process.env.GOOGLE_API_KEY;
     if (!key) throw new Error("GOOGLE_API_KEY is not set");
     this.client = new GoogleGenerativeAI(key);
   }
 
-  createHistory(): ProviderHistory {
-    return { _provider: "gemini", _messages: [] as GeminiContent[] };
-  }
-
-  pushUserMessage(history: ProviderHistory, text: string): void {
-    (history._messages as GeminiContent[]).push({
-      role: "user",
-      parts: [{ text }],
-    });
-  }
-
-  async chat(
+  protected async request(
     history: ProviderHistory,
     system: string,
     tools: ToolDefinition[],
     model: string,
     maxTokens: number,
     onToken?: (token: string) => void,
+    signal?: AbortSignal,
+    options?: ChatOptions,
   ): Promise<LLMResponse> {
+    const { maxOutput, budget } = fitReasoningBudget(
+      model,
+      maxTokens,
+      options?.thinkingBudget || 0,
+    );
     const genModel = this.client.getGenerativeModel({
       model,
       systemInstruction: system,
-      tools: [
-        {
-          functionDeclarations: tools.map((t) => toGeminiFunctionDeclaration(t)),
-        },
-      ],
+      tools:
+        tools.length > 0
+          ? [{ functionDeclarations: tools.map((t) => toGeminiFunctionDeclaration(t)) }]
+          : undefined,
+      toolConfig:
+        options?.toolChoice === "none" && tools.length > 0
+          ? { functionCallingConfig: { mode: FunctionCallingMode.NONE } }
+          : undefined,
+      // thinkingConfig is not in the SDK's types yet but is passed through to the API
       generationConfig: {
-        maxOutputTokens: maxTokens,
-      },
+        maxOutputTokens: maxOutput,
+        ...(budget > 0
+          ? { thinkingConfig: { thinkingBudget: budget, includeThoughts: true } }
+          : {}),
+      } as GenerationConfig,
     });
 
     // Separate the last message from history and send it via sendMessage.
-    const msgs = history._messages as GeminiContent[];
+    const msgs = toGeminiContents(history._messages);
     if (msgs.length === 0) throw new Error("Message history is empty");
 
     const historyForChat = msgs.slice(0, -1);
@@ -430,47 +1253,67 @@ class GeminiProvider implements LLMProvider {
 
     const chat = genModel.startChat({ history: historyForChat });
 
+    // Parts are collected from the raw chunks: the SDK's stream aggregation
+    // drops the thought flag and thought signatures
+    let parts: GeminiThinkingPart[];
     let response;
     if (onToken) {
       // Streaming mode
       const streamResult = await chat.sendMessageStream(
         lastMsg.parts as Array<string | GeminiPart>,
+        { signal },
       );
+      parts = [];
       for await (const chunk of streamResult.stream) {
-        try {
-          const chunkText = chunk.text();
-          if (chunkText) onToken(chunkText);
-        } catch {
-          // chunk.text() may throw if no text content
+        const chunkParts = (chunk.candidates?.[0]?.content?.parts ||
+          []) as GeminiThinkingPart[];
+        for (const p of chunkParts) {
+          parts.push(p);
+          if (!p.text) continue;
+          if (p.thought) options?.onThinking?.(p.text);
+          else onToken(p.text);
         }
       }
       response = await streamResult.response;
     } else {
       // Non-streaming mode
-      const result = await chat.sendMessage(lastMsg.parts as Array<string | GeminiPart>);
+      const result = await chat.sendMessage(lastMsg.parts as Array<string | GeminiPart>, {
+        signal,
+      });
       response = result.response;
+      parts = (response.candidates?.[0]?.content.parts || []) as GeminiThinkingPart[];
     }
 
     const candidate = response.candidates?.[0];
     if (!candidate) throw new Error("Gemini returned no candidates");
 
-    const parts = candidate.content.parts;
-    const textParts = parts
-      .filter((p): p is { text: string } => "text" in p)
-      .map((p) => p.text);
-    const text = textParts.join("");
-
+    const text = parts
+      .filter((p) => p.text && !p.thought)
+      .map((p) => p.text)
+      .join("");
+    const thinking = parts
+      .filter((p) => p.text && p.thought)
+      .map((p) => p.text)
+      .join("");
+    if (thinking && !onToken) options?.onThinking?.(thinking);
+
+    // Thought tokens are billed as output but reported outside candidatesTokenCount
+    const meta = response.usageMetadata as
+      | (UsageMetadata & { thoughtsTokenCount?: number })
+      | undefined;
+    const thoughtsTokens = meta?.thoughtsTokenCount || 0;
     const usage: TokenUsage = {
-      inputTokens: response.usageMetadata?.promptTokenCount || 0,
-      outputTokens: response.usageMetadata?.candidatesTokenCount || 0,
+      inputTokens: meta?.promptTokenCount || 0,
+      outputTokens: (meta?.candidatesTokenCount || 0) + thoughtsTokens,
+      thinkingTokens: thoughtsTokens || undefined,
     };
 
     const functionCalls = parts.filter(
       (
         p,
-      ): p is GeminiPart & {
+      ): p is GeminiThinkingPart & {
         functionCall: { name: string; args: Record<string, unknown> };
-      } => "functionCall" in p,
+      } => !!p.functionCall,
     );
 
     if (functionCalls.length > 0) {
@@ -479,59 +1322,74 @@ class GeminiProvider implements LLMProvider {
         name: fc.functionCall.name,
         input: (fc.functionCall.args || {}) as Record<string, unknown>,
       }));
-      return { stopReason: "tool_use", text, toolCalls, usage };
+      // Keep function calls with their thought signatures so the model's
+      // reasoning carries over into the next turn
+      const providerData: ProviderData = {
+        provider: this.name,
+        content: [
+          ...(text ? [{ text }] : []),
+          ...functionCalls.map((fc) => ({
+            functionCall: fc.functionCall,
+            ...(fc.thoughtSignature ? { thoughtSignature: fc.thoughtSignature } : {}),
+          })),
+        ],
+      };
+      return { stopReason: "tool_use", text, toolCalls, usage, thinking, providerData };
     }
 
-    return { stopReason: "end_turn", text, toolCalls: [], usage };
-  }
-
-  pushAssistantToolUse(history: ProviderHistory, response: LLMResponse): void {
-    const parts: GeminiPart[] = [];
-    if (response.text) {
-      parts.push({ text: response.text });
-    }
-    for (const tc of response.toolCalls) {
-      parts.push({
-        functionCall: { name: tc.name, args: tc.input },
-      });
-    }
-    (history._messages as GeminiContent[]).push({
-      role: "model",
-      parts,
-    });
+    return { stopReason: "end_turn", text, toolCalls: [], usage, thinking };
   }
+}
 
-  pushToolResults(
-    history: ProviderHistory,
-    results: Array<{ toolCallId: string; output: string }>,
-  ): void {
-    // Gemini tool results go in a single function-role message.
-    // Extract functionCall names from the last model message for name matching.
-    const msgs = history._messages as GeminiContent[];
-    const lastModel = [...msgs].reverse().find((m) => m.role === "model");
-
-    // Build a lookup map from toolCallId → functionCall name for robust matching
-    // (avoids fragile positional index matching if order ever diverges)
-    const idToName = new Map<string, string>();
-    const lastModelParts = lastModel?.parts || [];
-    let fcIdx = 0;
-    for (const p of lastModelParts) {
-      if ("functionCall" in p) {
-        // Gemini tool call IDs are generated as "gemini-tc-{timestamp}-{index}"
-        // Match by position within functionCallParts since Gemini doesn't have native IDs
-        const matchingResult = results[fcIdx];
-        if (matchingResult) {
-          idToName.set(
-            matchingResult.toolCallId,
-            (p as GeminiPart & { functionCall: { name: string } }).functionCall.name,
-          );
+/** Map the neutral transcript to Gemini contents (tool results are function-role parts) */
+function toGeminiContents(messages: TranscriptMessage[]): GeminiContent[] {
+  return messages.flatMap((m): GeminiContent[] => {
+    switch (m.role) {
+      case "user":
+        return [{ role: "user", parts: [{ text: m.text }] }];
+      case "assistant": {
+        if (m.providerData?.provider === "gemini") {
+          return [{ role: "model", parts: m.providerData.content as GeminiPart[] }];
         }
-        fcIdx++;
+        if (!m.toolCalls?.length) return [{ role: "model", parts: [{ text: m.text }] }];
+        return [
+          {
+            role: "model",
+            parts: [
+              ...(m.text ? [{ text: m.text }] : []),
+              ...m.toolCalls.map((tc) => ({
+                functionCall: { name: tc.name, args: tc.input },
+              })),
+            ],
+          },
+        ];
+      }
+      case "tool": {
+        // Images go in a following user message as inline data
+        const images = m.results.flatMap((r) => r.images ?? []);
+        const imageContent: GeminiContent[] = images.length
+          ? [
+              {
+                role: "user",
+                parts: images.map((img) => ({
+                  inlineData: { mimeType: img.mediaType, data: img.data },
+                })),
+              },
+            ]
+          : [];
+        return [toGeminiFunctionResponses(m.results), ...imageContent];
       }
     }
+  });
+}
 
-    const parts: GeminiPart[] = results.map((r) => {
-      const name = idToName.get(r.toolCallId) || "unknown";
+/** Tool results as one "function" role message of functionResponse parts */
+function toGeminiFunctionResponses(results: ToolResultInfo[]): GeminiContent {
+  // Gemini requires function responses in a "function" role message
+  // Note: TypeScript types may not expose "function" role, so we use type assertion
+  return {
+    role: "function" as GeminiContent["role"],
+    parts: results.map((r) => {
       // Gemini API requires functionResponse.response to be an Object,
       // not an Array or primitive value. If the tool returns an array
       // or non-object type, wrap it as { result: ... }
@@ -540,28 +1398,9 @@ class GeminiProvider implements LLMProvider {
         typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)
           ? (parsed as Record<string, unknown>)
           : { result: parsed };
-      return {
-        functionResponse: {
-          name,
-          response: responseObj,
-        },
-      };
-    });
-
-    // Gemini requires function responses in a "function" role message
-    // Note: TypeScript types may not expose "function" role, so we use type assertion
-    (history._messages as GeminiContent[]).push({
-      role: "function" as GeminiContent["role"],
-      parts,
-    });
-  }
-
-  pushAssistantText(history: ProviderHistory, text: string): void {
-    (history._messages as GeminiContent[]).push({
-      role: "model",
-      parts: [{ text }],
-    });
-  }
+      return { functionResponse: { name: r.name, response: responseObj } };
+    }),
+  };
 }
 
 // Gemini tool definition conversion
@@ -569,52 +1408,467 @@ function toGeminiFunctionDeclaration(tool: ToolDefinition): FunctionDeclaration
   return {
     name: tool.name,
     description: tool.description,
-    parameters: convertSchemaToGemini(tool.input_schema),
+    parameters: convertSchemaToGemini(tool.input_schema, tool.name),
   };
 }
 
 /**
- * Convert JSON Schema to Gemini's FunctionDeclarationSchema.
+ * Convert a tool's JSON Schema to Gemini's FunctionDeclarationSchema.
  *
- * The Gemini SDK's Schema type is a strict discriminated union,
- * but FunctionDeclarationSchema itself is a more relaxed interface.
- * We directly build objects that satisfy runtime requirements
- * and use type assertions to bypass compile-time checks.
+ * Gemini accepts an OpenAPI-style subset of JSON Schema, and rejects the whole
+ * request on unknown fields. Supported keywords are converted recursively
+ * (nested objects, arrays of objects, enums, ranges, defaults); keywords Gemini
+ * has no equivalent for throw, naming the tool and the property path, so a
+ * schema is never silently weakened.
  */
-function convertSchemaToGemini(
+export function convertSchemaToGemini(
   schema: ToolDefinition["input_schema"],
+  toolName: string = "tool",
 ): FunctionDeclarationSchema {
-  const properties: Record<string, unknown> = {};
-  for (const [key, val] of Object.entries(schema.properties)) {
-    const v = val as Record<string, unknown>;
-    const prop: Record<string, unknown> = {
-      type: v.type as string,
-      description: (v.description as string) || "",
-    };
-    if (v.type === "array" && v.items) {
-      prop.items = {
-        type: (v.items as Record<string, unknown>).type as string,
+  const converted = convertSchemaNode(schema, toolName, "");
+  if (converted.type !== SchemaType.OBJECT) {
+    throw new Error(`Gemini: tool "${toolName}" schema must be of type "object"`);
+  }
+  return converted;
+}
+
+const GEMINI_SCHEMA_TYPES = ["string", "number", "integer", "boolean", "array", "object"];
+
+/** Keywords the Gemini API accepts that the SDK's Schema type does not declare */
+interface GeminiSchemaExtras {
+  title?: string;
+  pattern?: string;
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minProperties?: number;
+  maxProperties?: number;
+}
+
+type GeminiSchema = Schema & GeminiSchemaExtras;
+
+/** Keywords copied as-is once their value type is checked */
+const GEMINI_NUMERIC_KEYWORDS = [
+  "minimum",
+  "maximum",
+  "minItems",
+  "maxItems",
+  "minLength",
+  "maxLength",
+  "minProperties",
+  "maxProperties",
+] as const;
+
+/** Documentation-only keywords with no effect on the call; dropped */
+const IGNORED_SCHEMA_KEYWORDS = new Set(["$schema", "$id", "$comment", "examples"]);
+
+function convertSchemaNode(node: unknown, toolName: string, path: string): GeminiSchema {
+  const where = `tool "${toolName}" schema${path ? ` at "${path}"` : ""}`;
+  if (!node || typeof node !== "object" || Array.isArray(node)) {
+    throw new Error(`Gemini: ${where} is not a schema object`);
+  }
+  const src = node as Record<string, unknown>;
+
+  const composite = ["$ref", "oneOf", "anyOf", "allOf", "not"].find((k) => k in src);
+  if (composite) {
+    throw new Error(`Gemini: ${where} uses unsupported keyword "${composite}"`);
+  }
+
+  // Keywords shared by all types
+  const common: BaseSchema & GeminiSchemaExtras = {};
+
+  // type, with ["x", "null"] mapped to nullable
+  let type = src.type;
+  if (Array.isArray(type)) {
+    const nonNull = type.filter((t) => t !== "null");
+    if (nonNull.length !== 1) {
+      throw new Error(`Gemini: ${where} has union type ${JSON.stringify(type)}`);
+    }
+    if (nonNull.length < type.length) common.nullable = true;
+    type = nonNull[0];
+  }
+  if (type === undefined && (Array.isArray(src.enum) || typeof src.const === "string")) {
+    type = "string";
+  }
+  if (typeof type !== "string" || !GEMINI_SCHEMA_TYPES.includes(type)) {
+    throw new Error(`Gemini: ${where} has unsupported type ${JSON.stringify(src.type)}`);
+  }
+
+  // Type-specific keywords, assembled into the matching Schema variant below
+  let format: string | undefined;
+  let enumValues: string[] | undefined;
+  let items: GeminiSchema | undefined;
+  let properties: Record<string, GeminiSchema> | undefined;
+  let required: string[] | undefined;
+
+  for (const [key, value] of Object.entries(src)) {
+    switch (key) {
+      case "type":
+        break;
+      case "description":
+      case "title":
+      case "pattern":
+        if (typeof value !== "string") {
+          throw new Error(`Gemini: ${where} has a non-string "${key}"`);
+        }
+        common[key] = value;
+        break;
+      case "nullable":
+        common.nullable = value === true;
+        break;
+      case "format":
+        if (typeof value === "string") format = value;
+        break;
+      case "enum":
+      case "const": {
+        const values = key === "const" ? [value] : value;
+        if (
+          !Array.isArray(values) ||
+          values.length === 0 ||
+          !values.every((v) => typeof v === "string")
+        ) {
+          throw new Error(`Gemini: ${where} "${key}" must list strings only`);
+        }
+        if (type !== "string") {
+          throw new Error(`Gemini: ${where} "${key}" requires type "string"`);
+        }
+        enumValues = values;
+        break;
+      }
+      case "default":
+        common.default = value;
+        break;
+      case "properties": {
+        if (!value || typeof value !== "object" || Array.isArray(value)) {
+          throw new Error(`Gemini: ${where} "properties" must be an object`);
+        }
+        properties = {};
+        for (const [name, sub] of Object.entries(value)) {
+          properties[name] = convertSchemaNode(
+            sub,
+            toolName,
+            path ? `${path}.${name}` : name,
+          );
+        }
+        break;
+      }
+      case "required": {
+        if (!Array.isArray(value) || !value.every((v) => typeof v === "string")) {
+          throw new Error(`Gemini: ${where} "required" must be an array of strings`);
+        }
+        const known = (src.properties ?? {}) as Record<string, unknown>;
+        const missing = value.filter((name) => !(name in known));
+        if (missing.length > 0) {
+          throw new Error(
+            `Gemini: ${where} requires undeclared properties: ${missing.join(", ")}`,
+          );
+        }
+        required = value;
+        break;
+      }
+      case "items":
+        items = convertSchemaNode(value, toolName, `${path}[]`);
+        break;
+      case "additionalProperties":
+        // `false` matches Gemini's behaviour (only declared properties are produced)
+        if (value !== false) {
+          throw new Error(
+            `Gemini: ${where} uses additionalProperties (free-form objects are not supported)`,
+          );
+        }
+        break;
+      default: {
+        const numeric = GEMINI_NUMERIC_KEYWORDS.find((k) => k === key);
+        if (numeric) {
+          if (typeof value !== "number") {
+            throw new Error(`Gemini: ${where} has a non-numeric "${key}"`);
+          }
+          common[numeric] = value;
+        } else if (!IGNORED_SCHEMA_KEYWORDS.has(key)) {
+          throw new Error(`Gemini: ${where} uses unsupported keyword "${key}"`);
+        }
+      }
+    }
+  }
+
+  // Formats Gemini does not know for the type are dropped (they are only hints)
+  switch (type) {
+    case "string":
+      if (enumValues) {
+        return { ...common, type: SchemaType.STRING, format: "enum", enum: enumValues };
+      }
+      return {
+        ...common,
+        type: SchemaType.STRING,
+        ...(format === "date-time" ? { format } : {}),
       };
+    case "number":
+      return {
+        ...common,
+        type: SchemaType.NUMBER,
+        ...(format === "float" || format === "double" ? { format } : {}),
+      };
+    case "integer":
+      return {
+        ...common,
+        type: SchemaType.INTEGER,
+        ...(format === "int32" || format === "int64" ? { format } : {}),
+      };
+    case "boolean":
+      return { ...common, type: SchemaType.BOOLEAN };
+    case "array":
+      if (!items) throw new Error(`Gemini: ${where} is an array without "items"`);
+      return { ...common, type: SchemaType.ARRAY, items };
+    case "object":
+      return {
+        ...common,
+        type: SchemaType.OBJECT,
+        properties: properties ?? {},
+        ...(required ? { required } : {}),
+      };
+    default:
+      throw new Error(
+        `Gemini: ${where} has unsupported type ${JSON.stringify(src.type)}`,
+      );
+  }
+}
+
+// ━━━ Mock Provider ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** One scripted reply; a reply with toolCalls is a tool_use response unless stopReason says otherwise */
+export interface MockStep {
+  text?: string;
+  toolCalls?: Array<{ id?: string; name: string; input?: Record<string, unknown> }>;
+  stopReason?: LLMResponse["stopReason"];
+  thinking?: string;
+  /** Defaults to a chars/4 estimate of the request and reply */
+  usage?: TokenUsage;
+  /** Throw instead of replying; with a kind the error is a ProviderError */
+  error?: {
+    message: string;
+    kind?: ProviderErrorKind;
+    status?: number;
+    retryAfterMs?: number;
+  };
+}
+
+/** MOCK_SCRIPT fixture: replies are used in order, one per chat() call */
+export interface MockScript {
+  responses: MockStep[];
+  /** Delay between streamed tokens in ms (default 0) */
+  tokenDelayMs?: number;
+}
+
+/** What the mock received on each chat() call (for assertions in tests) */
+export interface MockRequest {
+  system: string;
+  toolNames: string[];
+  messages: TranscriptMessage[];
+  options?: ChatOptions;
+}
+
+/**
+ * Offline provider that replays a scripted conversation (MOCK_SCRIPT), so the
+ * agent loop, retries, compaction and export can run without network or API keys.
+ * Text is streamed word by word through onToken; errors can be injected per step.
+ */
+export class MockProvider extends TranscriptProvider {
+  name = "mock";
+  readonly requests: MockRequest[] = [];
+  private script: MockScript;
+  private cursor = 0;
+
+  constructor(script: MockScript = loadMockScript(process.env.MOCK_SCRIPT)) {
+    super();
+    this.script = script;
+  }
+
+  protected async request(
+    history: ProviderHistory,
+    system: string,
+    tools: ToolDefinition[],
+    _model: string,
+    _maxTokens: number,
+    onToken?: (token: string) => void,
+    signal?: AbortSignal,
+    options?: ChatOptions,
+  ): Promise<LLMResponse> {
+    signal?.throwIfAborted();
+    this.requests.push({
+      system,
+      toolNames: tools.map((t) => t.name),
+      messages: structuredClone(history._messages),
+      options,
+    });
+
+    const step = this.script.responses[this.cursor];
+    if (!step) {
+      throw new Error(`Mock script exhausted after ${this.cursor} responses`);
+    }
+    this.cursor++;
+
+    if (step.error) {
+      const { kind, message, status, retryAfterMs } = step.error;
+      if (!kind) throw new Error(message);
+      throw new ProviderError(kind, message, this.name, { status, retryAfterMs });
     }
-    properties[key] = prop;
+
+    if (step.thinking) options?.onThinking?.(step.thinking);
+    const text = step.text ?? "";
+    if (onToken) {
+      for (const token of text.match(/\S+\s*|\s+/g) ?? []) {
+        signal?.throwIfAborted();
+        if (this.script.tokenDelayMs) await sleep(this.script.tokenDelayMs, signal);
+        onToken(token);
+      }
+    }
+
+    const toolCalls: ToolCallInfo[] = (step.toolCalls ?? []).map((tc, i) => ({
+      id: tc.id ?? `mock-tc-${this.cursor}-${i}`,
+      name: tc.name,
+      input: tc.input ?? {},
+    }));
+    const usage: TokenUsage = step.usage ?? {
+      inputTokens: Math.ceil(
+        (system.length + JSON.stringify(history._messages).length) / 4,
+      ),
+      outputTokens: Math.ceil((text.length + JSON.stringify(toolCalls).length) / 4),
+    };
+    return {
+      stopReason: step.stopReason ?? (toolCalls.length > 0 ? "tool_use" : "end_turn"),
+      text,
+      toolCalls,
+      usage,
+      thinking: step.thinking,
+    };
   }
-  // FunctionDeclarationSchema expects { type, properties, required?, description? }
-  return {
-    type: SchemaType.OBJECT,
-    properties,
-    required: schema.required || [],
-  } as FunctionDeclarationSchema;
+}
+
+/** Read a MockScript fixture (a bare array of steps is accepted too) */
+export function loadMockScript(path: string | undefined): MockScript {
+  if (!path) throw new Error("MOCK_SCRIPT is not set");
+  const raw = JSON.parse(readFileSync(path, "utf-8")) as MockScript | MockStep[];
+  const script = Array.isArray(raw) ? { responses: raw } : raw;
+  if (!Array.isArray(script.responses)) {
+    throw new Error(`Mock script ${path} has no "responses" array`);
+  }
+  return script;
+}
+
+/** Abortable delay: rejects with the signal's reason if cancelled while waiting */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ━━━ Error Classification ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+/** Message hints that refine an HTTP status (providers differ in how they report these) */
+const CONTEXT_LENGTH_PATTERN =
+  /context length|context window|prompt is too long|maximum context|too many tokens|input token count|exceeds the maximum number of tokens/i;
+const QUOTA_PATTERN =
+  /insufficient_quota|exceeded your current quota|credit balance|billing/i;
+const NETWORK_PATTERN =
+  /fetch failed|error fetching|ECONNRESET|ECONNREFUSED|ETIMEDOUT|ENOTFOUND|EHOSTUNREACH|EAI_AGAIN|socket hang up|network/i;
+
+/**
+ * Turn an SDK error into a ProviderError. Aborts and errors that did not come
+ * from the API (e.g. bugs in response handling) are returned unchanged.
+ */
+export function toProviderError(err: unknown, provider: string): unknown {
+  if (err instanceof ProviderError || isAbortError(err)) return err;
+  const message = err instanceof Error ? err.message : String(err);
+
+  let status: number | undefined;
+  let retryAfterMs: number | undefined;
+  if (
+    err instanceof Anthropic.APIConnectionError ||
+    err instanceof OpenAI.APIConnectionError
+  ) {
+    return new ProviderError("network", message, provider, { cause: err });
+  }
+  if (err instanceof Anthropic.APIError || err instanceof OpenAI.APIError) {
+    status = err.status;
+    retryAfterMs = parseRetryAfter(err.headers);
+  } else if (err instanceof GoogleGenerativeAIFetchError) {
+    status = err.status;
+    retryAfterMs = parseGeminiRetryDelay(err.errorDetails);
+  }
+
+  const kind = classifyError(status, message);
+  if (!kind) return err;
+  return new ProviderError(kind, message, provider, { status, retryAfterMs, cause: err });
+}
+
+/** Error kind from the HTTP status, refined by the message; undefined if not an API failure */
+export function classifyError(
+  status: number | undefined,
+  message: string,
+): ProviderErrorKind | undefined {
+  if (status === undefined) {
+    // Errors sent mid-stream carry no status (e.g. Anthropic overloaded_error events)
+    if (/overloaded/i.test(message)) return "overloaded";
+    return NETWORK_PATTERN.test(message) ? "network" : undefined;
+  }
+  if (status === 401 || status === 403) return "auth";
+  if (status === 402 || QUOTA_PATTERN.test(message)) return "quota";
+  if (status === 429) return "rate_limit";
+  if (status === 408) return "network";
+  if (status >= 500) return "overloaded";
+  if (CONTEXT_LENGTH_PATTERN.test(message)) return "context_length";
+  return "invalid_request";
+}
+
+function isAbortError(err: unknown): boolean {
+  return (
+    err instanceof Anthropic.APIUserAbortError ||
+    err instanceof OpenAI.APIUserAbortError ||
+    err instanceof GoogleGenerativeAIAbortError ||
+    (err instanceof Error && err.name === "AbortError")
+  );
+}
+
+/** Retry-After (seconds or HTTP date) or OpenAI's retry-after-ms, in milliseconds */
+function parseRetryAfter(headers: Headers | undefined): number | undefined {
+  const ms = Number(headers?.get("retry-after-ms"));
+  if (ms > 0) return ms;
+  const raw = headers?.get("retry-after");
+  if (!raw) return undefined;
+  const seconds = Number(raw);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(raw);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/** Gemini reports the wait as a google.rpc.RetryInfo detail, e.g. { retryDelay: "17s" } */
+function parseGeminiRetryDelay(
+  details: Array<Record<string, unknown>> | undefined,
+): number | undefined {
+  const info = details?.find((d) => String(d["@type"] ?? "").endsWith("RetryInfo"));
+  const seconds = parseFloat(String(info?.retryDelay ?? ""));
+  return Number.isNaN(seconds) ? undefined : seconds * 1000;
 }
 
 // ━━━ Provider Factory ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
-export type ProviderName = "anthropic" | "openai" | "gemini";
+export type ProviderName = "anthropic" | "openai" | "gemini" | "local" | "mock";
 
-const DEFAULT_MODELS: Record<ProviderName, string> = {
-  anthropic: "claude-sonnet-4-20250514",
-  openai: "gpt-4o",
-  gemini: "gemini-2.5-flash",
-};
+/** Context window assumed when neither the model nor its provider default is cataloged */
+const FALLBACK_CONTEXT_LIMIT = 128_000;
 
 let cachedProviders: Partial<Record<ProviderName, LLMProvider>> = {};
 
@@ -632,6 +1886,12 @@ export function getProvider(name: ProviderName): LLMProvider {
     case "gemini":
       provider = new GeminiProvider();
       break;
+    case "local":
+      provider = new LocalProvider();
+      break;
+    case "mock":
+      provider = new MockProvider();
+      break;
     default:
       throw new Error(`Unsupported provider: ${name}`);
   }
@@ -641,21 +1901,30 @@ export function getProvider(name: ProviderName): LLMProvider {
 }
 
 export function getDefaultModel(name: ProviderName): string {
-  return DEFAULT_MODELS[name];
+  if (name === "local" && process.env.LOCAL_MODEL) return process.env.LOCAL_MODEL;
+  const model = getCatalogDefault(name);
+  if (!model)
+    throw new Error(`No default model for provider "${name}" in the model catalog`);
+  return model;
 }
 
 export function resetProviderCache(): void {
   cachedProviders = {};
 }
 
-/** Get the context window size for a model (in tokens) */
-export function getContextLimit(model: string): number {
-  if (model.includes("claude")) return 200_000;
-  if (model.includes("gpt-4o")) return 128_000;
-  if (model.includes("gpt-4-turbo")) return 128_000;
-  if (model.includes("gpt-3.5")) return 16_385;
-  if (model.includes("gemini")) return 1_048_576;
-  return 128_000;
+/**
+ * Get the context window size for a model (in tokens), from the model catalog.
+ * Uncataloged models assume the window of their provider's default model;
+ * LOCAL_CONTEXT_LIMIT overrides the catalog for the local provider.
+ */
+export function getContextLimit(model: string, provider?: string): number {
+  if (provider === "local" && Number(process.env.LOCAL_CONTEXT_LIMIT)) {
+    return Number(process.env.LOCAL_CONTEXT_LIMIT);
+  }
+  const info = getModelInfo(model);
+  if (info) return info.contextWindow;
+  const fallback = provider ? getCatalogDefault(provider as ProviderName) : undefined;
+  return (fallback && getModelInfo(fallback)?.contextWindow) || FALLBACK_CONTEXT_LIMIT;
 }
 
 /** Validate whether the Provider's API Key is configured */
@@ -667,6 +1936,11 @@ export function validateProviderKey(name: ProviderName): string | null {
       return process.env.OPENAI_API_KEY ? null : "OPENAI_API_KEY";
     case "gemini":
       return process.env.GOOGLE_API_KEY ? null : "GOOGLE_API_KEY";
+    case "local":
+      // LOCAL_API_KEY is optional; most local servers need no key
+      return null;
+    case "mock":
+      return process.env.MOCK_SCRIPT ? null : "MOCK_SCRIPT";
     default:
       return `UNKNOWN_PROVIDER(${name})`;
   }
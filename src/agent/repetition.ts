@@ -0,0 +1,80 @@
+/**
+ * repetition.ts — Repetitive tool-call detection
+ *
+ * Tracks tool calls within one agent turn and flags identical or
+ * near-identical calls (same tool, same input after normalization).
+ * Some models — notably Gemini — can get stuck calling hybrid_search with the
+ * same query until MAX_ITERATIONS; this lets the loop correct or stop them.
+ */
+
+// ─── Configuration ───────────────────────────────────────
+
+/** Result-size parameters ignored when comparing inputs ("same query, more results" is a repeat) */
+const IGNORED_KEYS = new Set(["limit", "top_k", "max_results"]);
+
+/** Extra repeats allowed after the corrective note before the loop is stopped */
+const STOP_AFTER_WARN = 2;
+
+// ─── Types ───────────────────────────────────────────────
+
+export type RepetitionVerdict = "ok" | "warn" | "stop";
+
+// ─── RepetitionDetector ──────────────────────────────────
+
+export class RepetitionDetector {
+  private counts = new Map<string, number>();
+  private warnAt: number;
+  private stopAt: number;
+
+  /**
+   * @param threshold Occurrences of the same call that trigger a corrective note;
+   *                  the loop is stopped STOP_AFTER_WARN repeats later. 0 disables detection.
+   */
+  constructor(threshold: number) {
+    this.warnAt = threshold > 0 ? threshold : Infinity;
+    this.stopAt = threshold > 0 ? threshold + STOP_AFTER_WARN : Infinity;
+  }
+
+  /** Record a call and return its occurrence count plus what the loop should do */
+  record(
+    name: string,
+    input: Record<string, unknown>,
+  ): { count: number; verdict: RepetitionVerdict } {
+    const key = `${name}:${JSON.stringify(normalize(input))}`;
+    const count = (this.counts.get(key) || 0) + 1;
+    this.counts.set(key, count);
+
+    if (count >= this.stopAt) return { count, verdict: "stop" };
+    if (count >= this.warnAt) return { count, verdict: "warn" };
+    return { count, verdict: "ok" };
+  }
+}
+
+// ─── Normalization ───────────────────────────────────────
+
+/**
+ * Normalize tool input so trivially different calls compare equal:
+ * case, punctuation, whitespace and word order in strings; key order and
+ * empty/result-size fields in objects.
+ */
+function normalize(value: unknown): unknown {
+  if (typeof value === "string") {
+    return value
+      .toLowerCase()
+      .split(/[\s"'“”‘’.,;:!?()]+/)
+      .filter(Boolean)
+      .sort()
+      .join(" ");
+  }
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const v = (value as Record<string, unknown>)[key];
+      if (IGNORED_KEYS.has(key) || v === undefined || v === null || v === "") continue;
+      out[key] = normalize(v);
+    }
+    return out;
+  }
+  return value;
+}
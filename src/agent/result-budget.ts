@@ -0,0 +1,233 @@
+/**
+ * result-budget.ts — Tool result size budgeting
+ *
+ * Sits between executeTool and pushToolResults: caps each serialized tool result
+ * by a per-tool limit and by the context window space that is still free,
+ * trimming long arrays and text fields while keeping the JSON structure intact.
+ *
+ * Trimmed results carry an explicit marker so the model knows more is available
+ * (e.g. call again with a larger max_length or a narrower query).
+ */
+
+// ─── Configuration ───────────────────────────────────────
+
+/** Default per-tool caps (characters of serialized JSON) */
+const DEFAULT_TOOL_CAPS: Record<string, number> = {
+  get_record_content: 20_000,
+  fetch_url: 12_000,
+  hybrid_search: 8_000,
+  semantic_search: 8_000,
+  search_records: 8_000,
+  list_group_contents: 8_000,
+  get_related_records: 6_000,
+  web_search: 6_000,
+  delegate_research: 8_000,
+};
+
+/** Cap for tools without an entry in DEFAULT_TOOL_CAPS or overrides */
+const FALLBACK_TOOL_CAP = 6_000;
+
+/** Never trim a result below this size, however full the context is */
+const MIN_RESULT_CHARS = 1_500;
+
+/** Rough chars-per-token ratio for converting the token budget to characters */
+const CHARS_PER_TOKEN = 4;
+
+/** Fraction of the remaining context one batch of tool results may use */
+const REMAINING_CONTEXT_SHARE = 0.5;
+
+/** Shortest a text field is cut to before arrays/other fields are trimmed instead */
+const MIN_STRING_CHARS = 200;
+
+/** Safety valve for the trimming loop */
+const MAX_TRIM_PASSES = 40;
+
+// ─── Types ───────────────────────────────────────────────
+
+export interface ResultBudgetInput {
+  /** Model context window (tokens) */
+  contextLimit: number;
+  /** Tokens already in context (last call's input + output) */
+  contextTokens: number;
+  /** Tokens reserved for the model's next reply */
+  reserveTokens: number;
+  /** Number of tool results in this batch */
+  resultCount: number;
+}
+
+// ─── Budget Calculation ──────────────────────────────────
+
+/**
+ * Parse TOOL_RESULT_CAPS ("get_record_content=12000,hybrid_search=6000")
+ * into per-tool overrides. Invalid entries are ignored.
+ */
+export function parseToolResultCaps(raw: string | undefined): Record<string, number> {
+  const caps: Record<string, number> = {};
+  if (!raw) return caps;
+  for (const entry of raw.split(",")) {
+    const [name, value] = entry.split("=").map((s) => s.trim());
+    const n = Number(value);
+    if (name && n > 0) caps[name] = n;
+  }
+  return caps;
+}
+
+/** Per-tool cap in characters, honoring user overrides */
+export function getToolResultCap(
+  name: string,
+  overrides: Record<string, number> = {},
+): number {
+  return overrides[name] ?? DEFAULT_TOOL_CAPS[name] ?? FALLBACK_TOOL_CAP;
+}
+
+/**
+ * Character budget per result from the context space still free.
+ * Splits a share of the remaining window evenly across the batch.
+ */
+export function getRemainingBudget(input: ResultBudgetInput): number {
+  const freeTokens = input.contextLimit - input.contextTokens - input.reserveTokens;
+  const perResult =
+    (freeTokens * CHARS_PER_TOKEN * REMAINING_CONTEXT_SHARE) /
+    Math.max(1, input.resultCount);
+  return Math.max(MIN_RESULT_CHARS, Math.floor(perResult));
+}
+
+// ─── Structure-Aware Trimming ────────────────────────────
+
+/**
+ * Serialize a tool result to at most maxChars of JSON.
+ * Long arrays lose trailing items and long strings are cut first, with markers
+ * describing what was omitted; the result remains valid JSON.
+ */
+export function serializeWithBudget(result: unknown, maxChars: number): string {
+  const full = JSON.stringify(result) ?? "null";
+  if (full.length <= maxChars) return full;
+
+  // Holder lets nested setters replace the top-level value too
+  const holder: { value: unknown } = { value: structuredClone(result) };
+  let serialized = full;
+
+  for (let pass = 0; pass < MAX_TRIM_PASSES && serialized.length > maxChars; pass++) {
+    const excess = serialized.length - maxChars;
+    const target = findLargest(holder);
+    if (!target) break;
+
+    if (target.kind === "string") {
+      const s = target.get() as string;
+      const keep = Math.max(MIN_STRING_CHARS, s.length - excess - 120);
+      if (keep >= s.length) break;
+      target.set(
+        s.slice(0, keep) +
+          ` …[truncated: ${keep} of ${s.length} chars shown to fit the context budget]`,
+      );
+    } else {
+      const arr = target.get() as unknown[];
+      const items = arr.filter((x) => !isOmissionMarker(x));
+      const prevOmitted = omittedCount(arr);
+      const keep = Math.max(1, Math.floor(items.length / 2));
+      if (keep >= items.length) break;
+      const omitted = prevOmitted + (items.length - keep);
+      target.set([
+        ...items.slice(0, keep),
+        `[… ${omitted} more items omitted to fit the context budget; refine the query or request fewer results]`,
+      ]);
+    }
+    serialized = JSON.stringify(holder.value);
+  }
+
+  if (serialized.length <= maxChars) {
+    return addNote(holder.value, full.length, maxChars);
+  }
+
+  // Last resort: hand back a raw prefix so the model still sees something
+  return JSON.stringify({
+    _budgetNote: `Result too large for the remaining context (${full.length} chars); showing a raw prefix. Request a smaller or more specific result.`,
+    partial: full.slice(0, Math.max(0, maxChars - 250)),
+  });
+}
+
+// ─── Internal Helpers ────────────────────────────────────
+
+type Target = {
+  kind: "string" | "array";
+  size: number;
+  get(): unknown;
+  set(v: unknown): void;
+};
+
+/**
+ * Find the single largest string or array (by serialized size) anywhere in the value.
+ * Arrays with a single remaining item are skipped so their item can be trimmed instead.
+ */
+function findLargest(holder: { value: unknown }): Target | null {
+  let best: Target | null = null;
+
+  const visit = (get: () => unknown, set: (v: unknown) => void): void => {
+    const v = get();
+    if (typeof v === "string") {
+      // Strings already cut to ~MIN_STRING_CHARS (plus marker) are not cut again
+      if (v.length > MIN_STRING_CHARS * 2 && (!best || v.length > best.size)) {
+        best = { kind: "string", size: v.length, get, set };
+      }
+      return;
+    }
+    if (Array.isArray(v)) {
+      const realItems = v.filter((x) => !isOmissionMarker(x)).length;
+      const size = JSON.stringify(v).length;
+      if (realItems > 1 && (!best || size > best.size)) {
+        best = { kind: "array", size, get, set };
+      }
+      v.forEach((_, i) =>
+        visit(
+          () => v[i],
+          (nv) => {
+            v[i] = nv;
+          },
+        ),
+      );
+      return;
+    }
+    if (v && typeof v === "object") {
+      const obj = v as Record<string, unknown>;
+      for (const key of Object.keys(obj)) {
+        visit(
+          () => obj[key],
+          (nv) => {
+            obj[key] = nv;
+          },
+        );
+      }
+    }
+  };
+
+  visit(
+    () => holder.value,
+    (nv) => {
+      holder.value = nv;
+    },
+  );
+  return best;
+}
+
+function isOmissionMarker(x: unknown): boolean {
+  return typeof x === "string" && x.startsWith("[… ") && x.includes("more items omitted");
+}
+
+function omittedCount(arr: unknown[]): number {
+  const marker = arr.find(isOmissionMarker) as string | undefined;
+  const m = marker?.match(/\[… (\d+) more items omitted/);
+  return m ? Number(m[1]) : 0;
+}
+
+/** Attach a top-level note to trimmed object results (arrays already carry markers) */
+function addNote(value: unknown, fullLength: number, maxChars: number): string {
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    const withNote = {
+      ...(value as Record<string, unknown>),
+      _budgetNote: `Result trimmed from ${fullLength} chars to fit the context budget. Ask for specific parts if you need more.`,
+    };
+    const s = JSON.stringify(withNote);
+    if (s.length <= maxChars) return s;
+  }
+  return JSON.stringify(value);
+}
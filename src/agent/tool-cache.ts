@@ -0,0 +1,131 @@
+/**
+ * tool-cache.ts — Session-scoped tool result memoization
+ *
+ * Sits in front of executeTool: repeated calls with the same tool name and
+ * normalized input within the TTL are answered from memory instead of spawning
+ * osascript (or hitting the network) again.
+ *
+ * Entries for a record are dropped when get_record_metadata reports a
+ * modificationDate newer than the time they were cached.
+ */
+
+// ─── Configuration ───────────────────────────────────────
+
+/** Tools whose results may be cached (all read-only) */
+const CACHEABLE_TOOLS = new Set([
+  "search_records",
+  "get_record_content",
+  "list_databases",
+  "list_group_contents",
+  "get_related_records",
+  "classify_record",
+  "hybrid_search",
+  "semantic_search",
+  "web_search",
+  "fetch_url",
+]);
+
+/** Never cached: its modificationDate is what invalidates the other entries */
+const METADATA_TOOL = "get_record_metadata";
+
+/** Upper bound on entries so long sessions don't grow without limit */
+const MAX_ENTRIES = 500;
+
+// ─── Types ───────────────────────────────────────────────
+
+interface CacheEntry {
+  result: unknown;
+  storedAt: number;
+  /** Record UUID from the input, for modificationDate invalidation */
+  uuid?: string;
+}
+
+// ─── ToolResultCache ─────────────────────────────────────
+
+export class ToolResultCache {
+  private entries = new Map<string, CacheEntry>();
+  private ttlMs: number;
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs;
+  }
+
+  /** Cached result for this call, or undefined on a miss / expired entry */
+  get(name: string, input: Record<string, unknown>): { result: unknown } | undefined {
+    if (!CACHEABLE_TOOLS.has(name)) return undefined;
+    const key = cacheKey(name, input);
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (Date.now() - entry.storedAt > this.ttlMs) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return { result: entry.result };
+  }
+
+  /**
+   * Store a fresh result. Error results are not cached.
+   * Metadata results are inspected for invalidation instead.
+   */
+  set(name: string, input: Record<string, unknown>, result: unknown): void {
+    if (name === METADATA_TOOL) {
+      this.checkModified(result);
+      return;
+    }
+    if (!CACHEABLE_TOOLS.has(name) || isError(result)) return;
+
+    // Map keeps insertion order — evict the oldest entry when full
+    if (this.entries.size >= MAX_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    const uuid = typeof input.uuid === "string" ? input.uuid : undefined;
+    this.entries.set(cacheKey(name, input), { result, storedAt: Date.now(), uuid });
+  }
+
+  /** Drop all entries */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /** Drop entries for a record cached before its latest modification */
+  private checkModified(metadata: unknown): void {
+    if (!metadata || typeof metadata !== "object") return;
+    const { uuid, modificationDate } = metadata as Record<string, unknown>;
+    if (typeof uuid !== "string" || typeof modificationDate !== "string") return;
+    const modifiedAt = Date.parse(modificationDate);
+    if (Number.isNaN(modifiedAt)) return;
+
+    for (const [key, entry] of this.entries) {
+      if (entry.uuid === uuid && entry.storedAt < modifiedAt) this.entries.delete(key);
+    }
+  }
+}
+
+// ─── Internal Helpers ────────────────────────────────────
+
+/** Tool name + input with sorted keys, trimmed strings and empty fields dropped */
+function cacheKey(name: string, input: Record<string, unknown>): string {
+  return `${name}:${JSON.stringify(normalize(input))}`;
+}
+
+function normalize(value: unknown): unknown {
+  if (typeof value === "string") return value.trim();
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === "object") {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      const v = (value as Record<string, unknown>)[key];
+      if (v === undefined || v === null || v === "") continue;
+      out[key] = normalize(v);
+    }
+    return out;
+  }
+  return value;
+}
+
+function isError(result: unknown): boolean {
+  return (
+    !!result && typeof result === "object" && !Array.isArray(result) && "error" in result
+  );
+}
@@ -10,6 +10,13 @@
  */
 
 import * as dt from "../bridge/devonthink.js";
+import { BridgeError } from "../bridge/errors.js";
+import {
+  RECORD_KINDS,
+  type RecordKind,
+  type SearchFilters,
+} from "../bridge/search-filters.js";
+import type { PageInput, SortOrder } from "../bridge/pagination.js";
 import { webSearch } from "../web/search.js";
 import { fetchUrl } from "../web/fetch.js";
 import { hybridSearch, semanticSearchOnly } from "../rag/hybrid-search.js";
@@ -19,16 +26,37 @@ type ToolDef = ToolDefinition;
 
 // ━━━ DEVONthink Read-Only Tools ━━━━━━━━━━━━━━━━━━━━━━━━━
 
+/** offset / cursor / sort parameters shared by the paged tools */
+function pagingProperties(sorts: SortOrder[], defaultSort: SortOrder) {
+  return {
+    offset: {
+      type: "number",
+      description: "Number of items to skip (default 0)",
+    },
+    cursor: {
+      type: "string",
+      description:
+        "nextCursor from the previous page of the same request; replaces offset and sort",
+    },
+    sort: {
+      type: "string",
+      enum: sorts,
+      description: `Sort order (default ${defaultSort}); modified = newest first`,
+    },
+  };
+}
+
 const searchRecords: ToolDef = {
   name: "search_records",
   description:
-    "Full-text search documents in the DEVONthink database. Supports keywords, phrases, boolean operators (AND/OR/NOT), and search prefixes (name:, kind:, tags:, date:). Returns a list of matching documents with UUID, name, relevance score, type, tags, etc.",
+    "Full-text search documents in the DEVONthink database. Supports keywords, phrases and boolean operators (AND/OR/NOT). Narrow results with the structured filters (kinds, tags, dates, group, flagged/unread, rating) rather than query prefixes. Returns one page of matching documents (UUID, name, relevance score, type, tags, etc.) with totalCount; pass nextCursor as cursor to get the next page.",
   input_schema: {
     type: "object",
     properties: {
       query: {
         type: "string",
-        description: "Search query string",
+        description:
+          "Search query string; may be empty when kinds or tags are given (e.g. all PDFs tagged 'grant')",
       },
       database: {
         type: "string",
@@ -39,8 +67,57 @@ const searchRecords: ToolDef = {
         type: "number",
         description: "Maximum number of results (default 20)",
       },
+      kinds: {
+        type: "array",
+        items: { type: "string", enum: Object.keys(RECORD_KINDS) },
+        description: "Only records of these kinds",
+      },
+      tags: {
+        type: "array",
+        items: { type: "string" },
+        description: "Only records with these tags (see tag_match)",
+      },
+      tag_match: {
+        type: "string",
+        enum: ["all", "any"],
+        description: "Require all of the tags (default) or any of them",
+      },
+      created_after: {
+        type: "string",
+        description: "Created on or after this date (YYYY-MM-DD or ISO timestamp)",
+      },
+      created_before: {
+        type: "string",
+        description: "Created before this date (YYYY-MM-DD or ISO timestamp)",
+      },
+      modified_after: {
+        type: "string",
+        description: "Modified on or after this date (YYYY-MM-DD or ISO timestamp)",
+      },
+      modified_before: {
+        type: "string",
+        description: "Modified before this date (YYYY-MM-DD or ISO timestamp)",
+      },
+      group_uuid: {
+        type: "string",
+        description:
+          "Only search inside this group (UUID from list_group_contents); overrides database",
+      },
+      flagged: {
+        type: "boolean",
+        description: "Only flagged (true) or unflagged (false) records",
+      },
+      unread: {
+        type: "boolean",
+        description: "Only unread (true) or read (false) records",
+      },
+      min_rating: {
+        type: "number",
+        description: "Minimum rating (0–5)",
+      },
+      ...pagingProperties(["score", "name", "modified"], "score"),
     },
-    required: ["query"],
+    required: [],
   },
 };
 
@@ -93,7 +170,7 @@ const listDatabases: ToolDef = {
 const listGroupContents: ToolDef = {
   name: "list_group_contents",
   description:
-    "List the direct children of a group (folder), returning UUID, name, type, and size for each child. Used for browsing database structure. If no UUID is provided, lists the current database root directory.",
+    "List the direct children of a group (folder), returning UUID, name, type, size and modification date for each child, one page at a time with totalCount; pass nextCursor as cursor to get the next page. Used for browsing database structure. If no UUID is provided, lists the current database root directory.",
   input_schema: {
     type: "object",
     properties: {
@@ -105,6 +182,7 @@ const listGroupContents: ToolDef = {
         type: "number",
         description: "Maximum number of results (default 30)",
       },
+      ...pagingProperties(["name", "modified"], "name"),
     },
   },
 };
@@ -142,6 +220,23 @@ const classifyRecord: ToolDef = {
   },
 };
 
+const viewRecordImage: ToolDef = {
+  name: "view_record_image",
+  description:
+    "Look at a picture record or one page of a PDF (scans, photos, figures, charts, handwritten notes) by UUID. The image is downsized and attached to the result for you to inspect visually. Use it when get_record_content returns no text (images, scanned PDFs) or when the visual layout matters.",
+  input_schema: {
+    type: "object",
+    properties: {
+      uuid: { type: "string", description: "Record UUID (picture or PDF)" },
+      page: {
+        type: "number",
+        description: "PDF page number, starting at 1 (default 1); ignored for pictures",
+      },
+    },
+    required: ["uuid"],
+  },
+};
+
 // ━━━ Hybrid / Semantic Search Tools ━━━━━━━━━━━━━━━━━━━━━━
 
 const hybridSearchTool: ToolDef = {
@@ -240,6 +335,31 @@ const fetchUrlTool: ToolDef = {
   },
 };
 
+// ━━━ Delegation Tools ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
+
+const delegateResearchTool: ToolDef = {
+  name: "delegate_research",
+  description:
+    "Hand a focused research subquestion to a sub-agent that searches and reads on its own (database + web) and returns a condensed report with citations. " +
+    "Raw document text stays out of your context, and several delegate_research calls in one response run in parallel. " +
+    "Use it to split broad questions into independent subquestions; do simple lookups yourself.",
+  input_schema: {
+    type: "object",
+    properties: {
+      question: {
+        type: "string",
+        description: "Self-contained subquestion for the sub-agent to research",
+      },
+      context: {
+        type: "string",
+        description:
+          "Background the sub-agent needs (overall goal, known documents/UUIDs, what to skip); it cannot see this conversation",
+      },
+    },
+    required: ["question"],
+  },
+};
+
 // ━━━ Tool Registry ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 /** DEVONthink read-only tools */
@@ -251,6 +371,7 @@ const DT_TOOLS: ToolDef[] = [
   listGroupContents,
   getRelatedRecords,
   classifyRecord,
+  viewRecordImage,
 ];
 
 /** Hybrid / semantic search tools */
@@ -259,9 +380,17 @@ const RAG_TOOLS: ToolDef[] = [hybridSearchTool, semanticSearchTool];
 /** Web tools */
 const WEB_TOOLS: ToolDef[] = [webSearchTool, fetchUrlTool];
 
+/** Sub-agent delegation (executed by the agent loop, not executeTool) */
+const DELEGATION_TOOLS: ToolDef[] = [delegateResearchTool];
+
 /** Get all available tool definitions */
 export function getToolDefinitions(): ToolDef[] {
-  return [...DT_TOOLS, ...RAG_TOOLS, ...WEB_TOOLS];
+  return [...DT_TOOLS, ...RAG_TOOLS, ...WEB_TOOLS, ...DELEGATION_TOOLS];
+}
+
+/** Names of the research tools (everything except delegation), for sub-agents */
+export function getResearchToolNames(): string[] {
+  return [...DT_TOOLS, ...RAG_TOOLS, ...WEB_TOOLS].map((t) => t.name);
 }
 
 /** Get all tool names (for UI display) */
@@ -269,62 +398,139 @@ export function getToolNames(): string[] {
   return getToolDefinitions().map((t) => t.name);
 }
 
+/** Tools that spawn osascript (directly or via hybrid search) and hit DEVONthink */
+const JXA_TOOL_NAMES = new Set([...DT_TOOLS.map((t) => t.name), hybridSearchTool.name]);
+
+/** Whether a tool talks to DEVONthink via JXA (used for concurrency limiting) */
+export function isJXATool(name: string): boolean {
+  return JXA_TOOL_NAMES.has(name);
+}
+
+/** Whether a tool returns images (only offered to vision-capable models) */
+export function isVisionTool(name: string): boolean {
+  return name === viewRecordImage.name;
+}
+
 // ━━━ Tool Dispatcher ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━
 
 /**
  * Execute a tool by name with the given input parameters.
  * All DEVONthink tools are read-only.
+ * If signal is aborted, in-flight osascript children and HTTP requests are cancelled.
  */
 export async function executeTool(
   name: string,
   input: Record<string, unknown>,
+  signal?: AbortSignal,
 ): Promise<unknown> {
   switch (name) {
     // ─── DEVONthink Read-Only ───
     case "search_records":
       return dt.searchRecords(
-        input.query as string,
+        (input.query as string | undefined) ?? "",
         input.database as string | undefined,
         input.limit as number | undefined,
+        searchFiltersFromInput(input),
+        pageFromInput(input),
+        signal,
       );
     case "get_record_content":
       return dt.getRecordContent(
         input.uuid as string,
         input.max_length as number | undefined,
+        signal,
       );
     case "get_record_metadata":
-      return dt.getRecordMetadata(input.uuid as string);
+      return dt.getRecordMetadata(input.uuid as string, signal);
     case "list_databases":
-      return dt.listDatabases();
+      return dt.listDatabases(signal);
     case "list_group_contents":
       return dt.listGroupContents(
         input.uuid as string | undefined,
         input.limit as number | undefined,
+        pageFromInput(input),
+        signal,
       );
     case "get_related_records":
       return dt.getRelatedRecords(
         input.uuid as string,
         input.limit as number | undefined,
+        signal,
       );
     case "classify_record":
-      return dt.classifyRecord(input.uuid as string);
+      return dt.classifyRecord(input.uuid as string, signal);
+    case "view_record_image":
+      return dt.viewRecordImage(
+        input.uuid as string,
+        input.page as number | undefined,
+        signal,
+      );
 
     // ─── Hybrid / Semantic Search ───
     case "hybrid_search":
       return hybridSearch(input.query as string, {
         database: input.database as string | undefined,
         topK: input.top_k as number | undefined,
+        signal,
       });
     case "semantic_search":
       return semanticSearchOnly(input.query as string, input.top_k as number | undefined);
 
     // ─── Web ───
     case "web_search":
-      return webSearch(input.query as string, input.max_results as number | undefined);
+      return webSearch(
+        input.query as string,
+        input.max_results as number | undefined,
+        signal,
+      );
     case "fetch_url":
-      return fetchUrl(input.url as string, input.max_length as number | undefined);
+      return fetchUrl(
+        input.url as string,
+        input.max_length as number | undefined,
+        signal,
+      );
 
     default:
       return { error: `Unknown tool: ${name}` };
   }
 }
+
+/** search_records' structured filter parameters (snake_case) as SearchFilters */
+function searchFiltersFromInput(input: Record<string, unknown>): SearchFilters {
+  return {
+    kinds: asList(input.kinds) as RecordKind[] | undefined,
+    tags: asList(input.tags),
+    tagMatch: input.tag_match as "all" | "any" | undefined,
+    createdAfter: input.created_after as string | undefined,
+    createdBefore: input.created_before as string | undefined,
+    modifiedAfter: input.modified_after as string | undefined,
+    modifiedBefore: input.modified_before as string | undefined,
+    groupUuid: input.group_uuid as string | undefined,
+    flagged: input.flagged as boolean | undefined,
+    unread: input.unread as boolean | undefined,
+    minRating: input.min_rating as number | undefined,
+  };
+}
+
+function pageFromInput(input: Record<string, unknown>): PageInput {
+  return {
+    offset: input.offset as number | undefined,
+    cursor: input.cursor as string | undefined,
+    sort: input.sort as SortOrder | undefined,
+  };
+}
+
+/** Models sometimes send a single string where an array is expected */
+function asList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  return Array.isArray(value) ? value.map(String) : [String(value)];
+}
+
+/**
+ * Tool result for a failed call. DEVONthink failures keep their code and a
+ * remediation hint so the model (and the user) can act on them.
+ */
+export function toolErrorResult(err: unknown): Record<string, unknown> {
+  if (err instanceof BridgeError) return { ...err.toResult() };
+  return { error: err instanceof Error ? err.message : String(err) };
+}
@@ -0,0 +1,205 @@
+/**
+ * backend.ts — DEVONthink backend interface and selection
+ *
+ * Everything the agent and the RAG indexer read from DEVONthink goes through a
+ * DevonthinkBackend. The JXA backend (default) talks to the running app via
+ * osascript; DT_BACKEND=fake serves databases from a fixture directory
+ * (DT_FIXTURES) so the agent, indexing and hybrid search run off macOS.
+ */
+
+import { JXABackend } from "./jxa-backend.js";
+import { FakeBackend } from "./fake-backend.js";
+import type { SearchFilters } from "./search-filters.js";
+import type { PageInfo, PageRequest } from "./pagination.js";
+
+// ─── Result Types ────────────────────────────────────────
+
+export interface SearchHit {
+  uuid: string;
+  name: string;
+  score: number;
+  recordType: string;
+  tags: string[];
+  location: string;
+  database: string;
+  modificationDate: string;
+}
+
+/** One page of search hits */
+export interface SearchResults extends PageInfo {
+  results: SearchHit[];
+}
+
+export interface RecordContent {
+  uuid: string;
+  name: string;
+  recordType: string;
+  contentFormat: "plain_text" | "markdown" | "html" | "image";
+  content: string;
+  truncated: boolean;
+  totalLength: number;
+  wordCount: number;
+  path: string;
+}
+
+export interface RecordMetadata {
+  uuid: string;
+  name: string;
+  recordType: string;
+  tags: string[];
+  rating: number;
+  label: number;
+  /** Flagged state */
+  state: boolean;
+  location: string;
+  url: string;
+  comment: string;
+  referenceURL: string;
+  creationDate: string;
+  modificationDate: string;
+  size: number;
+  wordCount: number;
+  numberOfDuplicates: number;
+  numberOfReplicants: number;
+  database: string;
+  customMetaData: Record<string, unknown>;
+}
+
+export interface RecordImage {
+  uuid: string;
+  name: string;
+  recordType: string;
+  page?: number;
+  pageCount?: number;
+  width: number;
+  height: number;
+  image: { mediaType: string; data: string };
+}
+
+export interface DatabaseInfo {
+  uuid: string;
+  name: string;
+  path: string;
+  recordCount: number;
+}
+
+export interface GroupChild {
+  uuid: string;
+  name: string;
+  recordType: string;
+  size: number;
+  childCount: number;
+  modificationDate: string;
+}
+
+/** One page of a group's children */
+export interface GroupContents extends PageInfo {
+  parentName: string;
+  children: GroupChild[];
+}
+
+export interface RelatedRecord {
+  uuid: string;
+  name: string;
+  score: number;
+  recordType: string;
+  tags: string[];
+  database: string;
+}
+
+export interface ClassifyProposal {
+  uuid: string;
+  name: string;
+  score: number;
+  location: string;
+  database: string;
+}
+
+/** Indexable document as listed for the RAG indexer (metadata only) */
+export interface RecordSummary {
+  uuid: string;
+  name: string;
+  recordType: string;
+  database: string;
+  modificationDate: string;
+}
+
+// ─── Backend Interface ───────────────────────────────────
+
+/**
+ * Read-only access to DEVONthink databases. Scores follow DEVONthink's scale
+ * (roughly 0–100); dates are ISO strings. Failures (missing records, DEVONthink
+ * not running, ...) are thrown as BridgeError. Paged methods return the requested
+ * page of a stable sort (see pagination.ts) and leave nextCursor to the caller.
+ */
+export interface DevonthinkBackend {
+  readonly name: string;
+  /** An empty query is allowed when filters give kinds or tags to search by */
+  searchRecords(
+    query: string,
+    database?: string,
+    limit?: number,
+    filters?: SearchFilters,
+    page?: PageRequest,
+    signal?: AbortSignal,
+  ): Promise<SearchResults>;
+  getRecordContent(
+    uuid: string,
+    maxLength?: number,
+    signal?: AbortSignal,
+  ): Promise<RecordContent>;
+  getRecordMetadata(uuid: string, signal?: AbortSignal): Promise<RecordMetadata>;
+  viewRecordImage(
+    uuid: string,
+    page?: number,
+    signal?: AbortSignal,
+  ): Promise<RecordImage>;
+  listDatabases(signal?: AbortSignal): Promise<DatabaseInfo[]>;
+  /** Children of a group; the current database's root when uuid is omitted */
+  listGroupContents(
+    uuid?: string,
+    limit?: number,
+    page?: PageRequest,
+    signal?: AbortSignal,
+  ): Promise<GroupContents>;
+  getRelatedRecords(
+    uuid: string,
+    limit?: number,
+    signal?: AbortSignal,
+  ): Promise<RelatedRecord[]>;
+  classifyRecord(uuid: string, signal?: AbortSignal): Promise<ClassifyProposal[]>;
+  /** All indexable documents (no groups or media), optionally in one database */
+  listAllRecords(database?: string): Promise<RecordSummary[]>;
+}
+
+// ─── Selection ───────────────────────────────────────────
+
+export type BackendName = "jxa" | "fake";
+
+let backend: DevonthinkBackend | null = null;
+
+/** The backend chosen by DT_BACKEND (created on first use) */
+export function getBackend(): DevonthinkBackend {
+  if (!backend) backend = createBackend(getBackendName());
+  return backend;
+}
+
+/** Replace the active backend (e.g. a FakeBackend over other fixtures) */
+export function setBackend(next: DevonthinkBackend): void {
+  backend = next;
+}
+
+export function getBackendName(): BackendName {
+  return process.env.DT_BACKEND === "fake" ? "fake" : "jxa";
+}
+
+function createBackend(name: BackendName): DevonthinkBackend {
+  if (name === "fake") {
+    const dir = process.env.DT_FIXTURES;
+    if (!dir) {
+      throw new Error("DT_BACKEND=fake requires DT_FIXTURES (a fixture directory)");
+    }
+    return new FakeBackend(dir);
+  }
+  return new JXABackend();
+}
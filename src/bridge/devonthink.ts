@@ -2,64 +2,95 @@
  * devonthink.ts — DEVONthink high-level API (read-only)
  *
  * Each method corresponds to an Agent read-only tool.
- * Internally builds JXA scripts → calls executor → parses JSON response.
+ * Calls go to the active DevonthinkBackend (JXA by default, see backend.ts).
  *
  * Note: This module is strictly read-only. No methods that modify DEVONthink data are provided.
  */
 
-import { runJXAJSON } from "./executor.js";
-import { searchScript, getRelatedScript, classifyScript } from "./scripts/search.js";
-import { getRecordContentScript, getRecordMetadataScript } from "./scripts/records.js";
-import {
-  listDatabasesScript,
-  listGroupContentsScript,
-  listAllRecordsScript,
-} from "./scripts/databases.js";
+import { getBackend } from "./backend.js";
+import type { SearchFilters } from "./search-filters.js";
+import { nextCursor, requestKey, resolvePage, type PageInput } from "./pagination.js";
 
 // ─── Read-Only Operations ────────────────────────────────
 
-export async function searchRecords(query: string, database?: string, limit?: number) {
-  return runJXAJSON(searchScript(query, database, limit));
+export async function searchRecords(
+  query: string,
+  database?: string,
+  limit?: number,
+  filters?: SearchFilters,
+  paging: PageInput = {},
+  signal?: AbortSignal,
+) {
+  const key = requestKey(["search", query, database ?? null, filters ?? {}]);
+  const page = resolvePage(paging, key, "score");
+  const found = await getBackend().searchRecords(
+    query,
+    database,
+    limit,
+    filters,
+    page,
+    signal,
+  );
+  return {
+    ...found,
+    nextCursor: nextCursor(key, page, found.results.length, found.totalCount),
+  };
 }
 
-export async function getRecordContent(uuid: string, maxLength?: number) {
+export async function getRecordContent(
+  uuid: string,
+  maxLength?: number,
+  signal?: AbortSignal,
+) {
   // Support CONTENT_MAX_LENGTH env var for custom default truncation length
   const effectiveMax = maxLength ?? (Number(process.env.CONTENT_MAX_LENGTH) || undefined);
-  return runJXAJSON(getRecordContentScript(uuid, effectiveMax));
+  return getBackend().getRecordContent(uuid, effectiveMax, signal);
 }
 
-export async function getRecordMetadata(uuid: string) {
-  return runJXAJSON(getRecordMetadataScript(uuid));
+export async function getRecordMetadata(uuid: string, signal?: AbortSignal) {
+  return getBackend().getRecordMetadata(uuid, signal);
 }
 
-export async function listDatabases() {
-  return runJXAJSON(listDatabasesScript());
+/** Picture or PDF page as a downsized JPEG for vision models */
+export async function viewRecordImage(uuid: string, page?: number, signal?: AbortSignal) {
+  return getBackend().viewRecordImage(uuid, page, signal);
 }
 
-export async function listGroupContents(uuid?: string, limit?: number) {
-  return runJXAJSON(listGroupContentsScript(uuid, limit));
+export async function listDatabases(signal?: AbortSignal) {
+  return getBackend().listDatabases(signal);
 }
 
-export async function getRelatedRecords(uuid: string, limit?: number) {
-  return runJXAJSON(getRelatedScript(uuid, limit));
+export async function listGroupContents(
+  uuid?: string,
+  limit?: number,
+  paging: PageInput = {},
+  signal?: AbortSignal,
+) {
+  const key = requestKey(["group", uuid ?? null]);
+  const page = resolvePage(paging, key, "name", ["name", "modified"]);
+  const contents = await getBackend().listGroupContents(uuid, limit, page, signal);
+  return {
+    ...contents,
+    nextCursor: nextCursor(key, page, contents.children.length, contents.totalCount),
+  };
 }
 
-export async function classifyRecord(uuid: string) {
-  return runJXAJSON(classifyScript(uuid));
+export async function getRelatedRecords(
+  uuid: string,
+  limit?: number,
+  signal?: AbortSignal,
+) {
+  return getBackend().getRelatedRecords(uuid, limit, signal);
+}
+
+export async function classifyRecord(uuid: string, signal?: AbortSignal) {
+  return getBackend().classifyRecord(uuid, signal);
 }
 
 /**
  * List all document records in databases (metadata only, no content).
- * Used by the RAG indexer. Uses a longer timeout (60s) for large databases.
+ * Used by the RAG indexer.
  */
 export async function listAllRecords(database?: string) {
-  return runJXAJSON<
-    Array<{
-      uuid: string;
-      name: string;
-      recordType: string;
-      database: string;
-      modificationDate: string;
-    }>
-  >(listAllRecordsScript(database), 180_000); // 3 min timeout for large databases
+  return getBackend().listAllRecords(database);
 }
@@ -0,0 +1,125 @@
+/**
+ * errors.ts — Typed DEVONthink bridge errors
+ *
+ * Failures are classified once, from osascript's error codes or a script's
+ * {error} result, so tools can report a stable code plus a remediation hint
+ * that both the model and the user can act on.
+ */
+
+export type BridgeErrorKind =
+  | "devonthink_not_running"
+  | "automation_permission_denied"
+  | "record_not_found"
+  | "database_not_found"
+  | "timeout"
+  | "script_error"
+  | "parse_error";
+
+/** What to do about each kind of failure */
+const HINTS: Record<BridgeErrorKind, string> = {
+  devonthink_not_running:
+    "Start DEVONthink (and open at least one database), then try again.",
+  automation_permission_denied:
+    "Grant Automation permission in System Settings → Privacy & Security → Automation: allow your terminal app to control DEVONthink, then try again.",
+  record_not_found:
+    "Check the UUID: use one returned by search_records, hybrid_search or list_group_contents. The record may have been deleted or moved to another database.",
+  database_not_found: "Use list_databases to get the exact names of the open databases.",
+  timeout:
+    "DEVONthink may be busy (indexing, syncing or a large request). Retry with a narrower request, or raise JXA_TIMEOUT.",
+  script_error:
+    "The DEVONthink request failed. Check the arguments, or read the record another way.",
+  parse_error: "DEVONthink returned unexpected output. Retrying usually helps.",
+};
+
+/** Structured form of a bridge error, as returned to the model by tools */
+export interface BridgeErrorResult {
+  error: string;
+  code: BridgeErrorKind;
+  hint: string;
+}
+
+export class BridgeError extends Error {
+  readonly kind: BridgeErrorKind;
+  /** osascript / Apple Event error number, when there was one (e.g. -1743) */
+  readonly errorNumber?: number;
+
+  constructor(
+    kind: BridgeErrorKind,
+    message: string,
+    details: { errorNumber?: number; cause?: unknown } = {},
+  ) {
+    super(message, { cause: details.cause });
+    this.name = "BridgeError";
+    this.kind = kind;
+    this.errorNumber = details.errorNumber;
+  }
+
+  get hint(): string {
+    return HINTS[this.kind];
+  }
+
+  toResult(): BridgeErrorResult {
+    return { error: this.message, code: this.kind, hint: this.hint };
+  }
+}
+
+// ─── Classification ──────────────────────────────────────
+
+/** Apple Event error numbers with a specific meaning here */
+const NOT_AUTHORIZED = -1743;
+const APP_NOT_RUNNING = [-600, -609, -10810];
+const APPLE_EVENT_TIMEOUT = -1712;
+
+const NOT_RUNNING_PATTERN =
+  /application isn't running|application can't be found|connection is invalid/i;
+
+/**
+ * Classify an osascript failure from its stderr, e.g.
+ * "execution error: Error: Not authorized to send Apple events to DEVONthink. (-1743)".
+ */
+export function fromOsascriptError(stderr: string, cause?: unknown): BridgeError {
+  const detail = stderr
+    .trim()
+    .replace(/^.*?execution error:\s*/s, "")
+    .replace(/^(Error:\s*)+/, "");
+  const code = stderr.match(/\((-?\d+)\)\s*$/);
+  const errorNumber = code ? Number(code[1]) : undefined;
+  const details = { errorNumber, cause };
+
+  if (errorNumber === NOT_AUTHORIZED) {
+    return new BridgeError(
+      "automation_permission_denied",
+      `Not allowed to control DEVONthink: ${detail}`,
+      details,
+    );
+  }
+  if (
+    (errorNumber !== undefined && APP_NOT_RUNNING.includes(errorNumber)) ||
+    NOT_RUNNING_PATTERN.test(stderr)
+  ) {
+    return new BridgeError(
+      "devonthink_not_running",
+      `DEVONthink is not available: ${detail}`,
+      details,
+    );
+  }
+  if (errorNumber === APPLE_EVENT_TIMEOUT) {
+    return new BridgeError(
+      "timeout",
+      `DEVONthink did not answer in time: ${detail}`,
+      details,
+    );
+  }
+  return new BridgeError("script_error", `JXA execution failed: ${detail}`, details);
+}
+
+/** Classify a script's own {error: "..."} result */
+export function fromScriptResult(message: string): BridgeError {
+  if (/^(record|group) not found/i.test(message)) {
+    return new BridgeError("record_not_found", message);
+  }
+  if (/^database not found/i.test(message)) {
+    return new BridgeError("database_not_found", message);
+  }
+  return new BridgeError("script_error", message);
+}
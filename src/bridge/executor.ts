@@ -3,55 +3,102 @@
  *
  * Executes JXA scripts via macOS osascript -l JavaScript
  * to communicate with DEVONthink.
+ *
+ * Scripts run in long-lived osascript workers that read newline-delimited JSON
+ * requests on stdin, which saves the 150–400 ms process start of every call.
+ * A worker runs one script at a time, so JXA_CONCURRENCY workers (default 2)
+ * are started on demand to match the agent's cap on concurrent DEVONthink calls.
+ * If a worker cannot start or keeps crashing, each script gets its own
+ * osascript process as before (JXA_WORKER=false forces this mode).
  */
 
-import { execFile } from "node:child_process";
+import { execFile, spawn, type ChildProcess } from "node:child_process";
+import type { Socket } from "node:net";
 import { promisify } from "node:util";
+import { BridgeError, fromOsascriptError, fromScriptResult } from "./errors.js";
 
 const exec = promisify(execFile);
 
 const DEFAULT_TIMEOUT = Number(process.env.JXA_TIMEOUT) || 30_000;
 
+/** osascript output limit — large databases (6GB+) produce big JSON */
+const MAX_BUFFER = 100 * 1024 * 1024;
+
+const OSASCRIPT_ENV = { ...process.env, LANG: "en_US.UTF-8" };
+
 /**
  * Execute a JXA script and return stdout (typically a JSON string).
  * All scripts should end with JSON.stringify(...) to return structured data.
+ * If signal is aborted, the script is stopped and the AbortError is rethrown.
  */
 export async function runJXA(
   script: string,
   timeout: number = DEFAULT_TIMEOUT,
+  signal?: AbortSignal,
+): Promise<string> {
+  if (worker.available) {
+    try {
+      return await worker.run(script, timeout, signal);
+    } catch (err: unknown) {
+      // The worker died under this request; scripts are read-only, so run it again one-shot
+      if (!(err instanceof WorkerUnavailableError)) throw err;
+    }
+  }
+  return runOneShot(script, timeout, signal);
+}
+
+/** One osascript process for one script */
+async function runOneShot(
+  script: string,
+  timeout: number,
+  signal?: AbortSignal,
 ): Promise<string> {
   try {
     const { stdout } = await exec("osascript", ["-l", "JavaScript", "-e", script], {
       timeout,
-      maxBuffer: 100 * 1024 * 1024, // 100 MB — large databases (6GB+) produce big JSON
-      env: { ...process.env, LANG: "en_US.UTF-8" },
+      maxBuffer: MAX_BUFFER,
+      env: OSASCRIPT_ENV,
+      signal,
     });
     return stdout.trim();
   } catch (err: unknown) {
     const e = err as Error & { stderr?: string; killed?: boolean };
-    if (e.killed) {
-      throw new Error(
-        `JXA script timed out (${timeout}ms). DEVONthink may be unresponsive.`,
-      );
-    }
-    const detail = e.stderr?.trim() || e.message;
-    throw new Error(`JXA execution failed: ${detail}`);
+    if (e.name === "AbortError") throw err;
+    if (e.killed) throw timeoutError(timeout);
+    throw fromOsascriptError(e.stderr?.trim() || e.message, err);
   }
 }
 
+function timeoutError(timeout: number): BridgeError {
+  return new BridgeError(
+    "timeout",
+    `JXA script timed out (${timeout}ms). DEVONthink may be unresponsive.`,
+  );
+}
+
 /**
  * Execute a JXA script and parse stdout as JSON.
+ * A script's own {error: "..."} result is thrown as a BridgeError.
  */
 export async function runJXAJSON<T = unknown>(
   script: string,
   timeout?: number,
+  signal?: AbortSignal,
 ): Promise<T> {
-  const raw = await runJXA(script, timeout);
+  const raw = await runJXA(script, timeout, signal);
+  let parsed: unknown;
   try {
-    return JSON.parse(raw) as T;
-  } catch {
-    throw new Error(`JXA returned unparseable JSON: ${raw.slice(0, 200)}`);
+    parsed = JSON.parse(raw);
+  } catch (err) {
+    throw new BridgeError(
+      "parse_error",
+      `JXA returned unparseable JSON: ${raw.slice(0, 200)}`,
+      { cause: err },
+    );
   }
+  const error = (parsed as { error?: unknown } | null)?.error;
+  if (typeof error === "string") throw fromScriptResult(error);
+  return parsed as T;
 }
 
 /**
@@ -61,3 +108,332 @@ export async function runJXAJSON<T = unknown>(
 export function escapeForJXA(s: string): string {
   return JSON.stringify(s);
 }
+
+// ─── Persistent Worker ──────────────────────────────────
+
+/**
+ * Worker loop: one JSON request per stdin line ({id, script}), one JSON response
+ * per stdout line ({id, result} or {id, error}). Errors are reported
+ * in osascript's own "execution error: … (code)" form so both modes fail alike.
+ * Requests are ASCII-only (see encodeRequest), so chunks never split a character.
+ */
+const WORKER_SCRIPT = `
+ObjC.import("Foundation");
+const input = $.NSFileHandle.fileHandleWithStandardInput;
+const output = $.NSFileHandle.fileHandleWithStandardOutput;
+function send(msg) {
+  output.writeData($(JSON.stringify(msg) + "\\n").dataUsingEncoding($.NSUTF8StringEncoding));
+}
+send({ ready: true });
+let buffer = "";
+for (;;) {
+  const data = input.availableData;
+  if (data.length === 0) break;
+  buffer += $.NSString.alloc.initWithDataEncoding(data, $.NSUTF8StringEncoding).js;
+  let nl;
+  while ((nl = buffer.indexOf("\\n")) >= 0) {
+    const line = buffer.slice(0, nl);
+    buffer = buffer.slice(nl + 1);
+    if (!line.trim()) continue;
+    const req = JSON.parse(line);
+    try {
+      const result = (0, eval)(req.script);
+      send({ id: req.id, result: result === undefined ? "" : String(result) });
+    } catch (e) {
+      const code = e && e.errorNumber !== undefined ? " (" + e.errorNumber + ")" : "";
+      send({ id: req.id, error: "execution error: " + String(e) + code });
+    }
+  }
+}
+`;
+
+/** How long the worker may take to report ready before falling back */
+const WORKER_START_TIMEOUT = 10_000;
+
+/** Workers in the pool; the same variable caps concurrent JXA tool calls in the agent */
+const WORKER_POOL_SIZE = Math.max(
+  1,
+  Math.floor(Number(process.env.JXA_CONCURRENCY) || 2),
+);
+
+/** Unexpected worker exits tolerated per session before one-shot mode takes over */
+const MAX_WORKER_CRASHES = 3;
+
+/** Thrown when a request could not run in the worker and should run one-shot */
+class WorkerUnavailableError extends Error {}
+
+interface WorkerRequest {
+  id: number;
+  script: string;
+  timeout: number;
+  signal?: AbortSignal;
+  onAbort: () => void;
+  resolve: (stdout: string) => void;
+  reject: (err: unknown) => void;
+}
+
+interface WorkerResponse {
+  id?: number;
+  ready?: boolean;
+  result?: string;
+  error?: string;
+}
+
+/**
+ * One osascript worker running one script at a time; further requests queue.
+ * A timed-out or cancelled script cannot be interrupted inside JXA, so the
+ * worker is killed and a new one is started for the next request.
+ */
+class JXAWorker {
+  private child: ChildProcess | null = null;
+  private ready: Promise<void> | null = null;
+  private queue: WorkerRequest[] = [];
+  private active: { req: WorkerRequest; timer?: NodeJS.Timeout } | null = null;
+  private nextId = 1;
+  private pending: string[] = [];
+  private stderrTail = "";
+  private crashes = 0;
+  private disabled = process.platform !== "darwin" || process.env.JXA_WORKER === "false";
+
+  get available(): boolean {
+    return !this.disabled;
+  }
+
+  /** Requests running or waiting in this worker */
+  get load(): number {
+    return this.queue.length + (this.active ? 1 : 0);
+  }
+
+  run(script: string, timeout: number, signal?: AbortSignal): Promise<string> {
+    signal?.throwIfAborted();
+    return new Promise((resolve, reject) => {
+      const req: WorkerRequest = {
+        id: this.nextId++,
+        script,
+        timeout,
+        signal,
+        onAbort: () => this.cancel(req),
+        resolve,
+        reject,
+      };
+      signal?.addEventListener("abort", req.onAbort, { once: true });
+      this.queue.push(req);
+      void this.pump();
+    });
+  }
+
+  /** Send the next queued request once the worker is idle and ready */
+  private async pump(): Promise<void> {
+    if (this.active || this.queue.length === 0) return;
+    if (this.disabled) {
+      // Gave up on the worker while these waited; they run one-shot instead
+      for (const req of this.queue.splice(0)) {
+        this.settle(req, () => req.reject(new WorkerUnavailableError("worker disabled")));
+      }
+      return;
+    }
+    const req = this.queue.shift()!;
+    this.active = { req };
+    try {
+      await this.start();
+    } catch (err: unknown) {
+      return this.finish(req, () => req.reject(err));
+    }
+    if (this.active?.req !== req) return; // cancelled while the worker started
+    // The timeout covers the script itself, not a slow worker start
+    this.active.timer = setTimeout(() => this.expire(req), req.timeout);
+    this.child!.stdin!.write(encodeRequest(req.id, req.script));
+  }
+
+  /** Spawn the worker if needed and wait for its ready line */
+  private start(): Promise<void> {
+    if (this.ready) return this.ready;
+
+    const child = spawn("osascript", ["-l", "JavaScript", "-e", WORKER_SCRIPT], {
+      env: OSASCRIPT_ENV,
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    this.child = child;
+    this.pending = [];
+    this.stderrTail = "";
+
+    // An idle worker must not keep the process alive
+    child.unref();
+    for (const stream of [child.stdin, child.stdout, child.stderr]) {
+      (stream as unknown as Socket | null)?.unref?.();
+    }
+
+    this.ready = new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.crash(child, "did not start");
+        reject(new WorkerUnavailableError("JXA worker did not start"));
+      }, WORKER_START_TIMEOUT);
+
+      child.stdout!.setEncoding("utf8");
+      child.stdout!.on("data", (chunk: string) => {
+        for (const line of this.splitLines(chunk)) {
+          const msg = parseResponse(line);
+          if (msg?.ready) {
+            clearTimeout(timer);
+            resolve();
+          } else if (msg) {
+            this.handleResponse(msg);
+          }
+        }
+      });
+      child.stderr!.setEncoding("utf8");
+      child.stderr!.on("data", (chunk: string) => {
+        this.stderrTail = (this.stderrTail + chunk).slice(-2000);
+      });
+      child.on("error", (err) => {
+        clearTimeout(timer);
+        this.crash(child, err.message);
+        reject(new WorkerUnavailableError(err.message));
+      });
+      child.on("exit", (code, sig) => {
+        clearTimeout(timer);
+        const detail = this.stderrTail.trim() || `exit ${code ?? sig}`;
+        // Not a crash if it was killed on purpose (timeout, abort)
+        if (this.child === child) this.crash(child, detail);
+        reject(new WorkerUnavailableError(`JXA worker exited: ${detail}`));
+      });
+    });
+    return this.ready;
+  }
+
+  /** Complete lines from stdout; a partial line waits for the next chunk */
+  private splitLines(chunk: string): string[] {
+    const lines: string[] = [];
+    let start = 0;
+    let nl: number;
+    while ((nl = chunk.indexOf("\n", start)) >= 0) {
+      this.pending.push(chunk.slice(start, nl));
+      lines.push(this.pending.join(""));
+      this.pending = [];
+      start = nl + 1;
+    }
+    if (start < chunk.length) this.pending.push(chunk.slice(start));
+    return lines;
+  }
+
+  private handleResponse(msg: WorkerResponse): void {
+    const req = this.active?.req;
+    if (!req || msg.id !== req.id) return; // answer to a request already given up on
+    this.crashes = 0;
+    this.finish(req, () => {
+      if (msg.error !== undefined) {
+        req.reject(fromOsascriptError(msg.error));
+      } else {
+        req.resolve((msg.result ?? "").trim());
+      }
+    });
+  }
+
+  private expire(req: WorkerRequest): void {
+    if (this.active?.req !== req) return;
+    this.stop();
+    this.finish(req, () => req.reject(timeoutError(req.timeout)));
+  }
+
+  private cancel(req: WorkerRequest): void {
+    const reason = req.signal?.reason;
+    const queued = this.queue.indexOf(req);
+    if (queued >= 0) {
+      this.queue.splice(queued, 1);
+      this.settle(req, () => req.reject(reason));
+    } else if (this.active?.req === req) {
+      this.stop();
+      this.finish(req, () => req.reject(reason));
+    }
+  }
+
+  /** Settle the active request and move on to the next one */
+  private finish(req: WorkerRequest, settle: () => void): void {
+    if (this.active?.req === req) {
+      clearTimeout(this.active.timer);
+      this.active = null;
+    }
+    this.settle(req, settle);
+    void this.pump();
+  }
+
+  private settle(req: WorkerRequest, settle: () => void): void {
+    req.signal?.removeEventListener("abort", req.onAbort);
+    settle();
+  }
+
+  /** The worker exited or failed on its own: hand the active request back for one-shot */
+  private crash(child: ChildProcess, detail: string): void {
+    if (this.child !== child) return;
+    this.stop();
+    if (++this.crashes >= MAX_WORKER_CRASHES) {
+      this.disabled = true;
+      console.error(
+        `  ⚠ JXA worker keeps failing (${detail}); using one osascript per call`,
+      );
+    }
+    const req = this.active?.req;
+    if (req) {
+      this.finish(req, () => req.reject(new WorkerUnavailableError(detail)));
+    }
+  }
+
+  /** Kill the current worker; the next request starts a fresh one */
+  private stop(): void {
+    const child = this.child;
+    this.child = null;
+    this.ready = null;
+    child?.kill();
+  }
+
+  /** Kill the worker on exit so no osascript process outlives the agent */
+  shutdown(): void {
+    this.stop();
+  }
+}
+
+/** One request line, with non-ASCII characters escaped so the line is pure ASCII */
+function encodeRequest(id: number, script: string): string {
+  return (
+    JSON.stringify({ id, script }).replace(
+      /[\u007f-\uffff]/g,
+      (c) => "\\u" + c.charCodeAt(0).toString(16).padStart(4, "0"),
+    ) + "\n"
+  );
+}
+
+function parseResponse(line: string): WorkerResponse | null {
+  try {
+    return JSON.parse(line) as WorkerResponse;
+  } catch {
+    return null; // stray output (e.g. osascript printing the final value)
+  }
+}
+
+/**
+ * A fixed set of workers. Each request goes to the first idle worker, so a
+ * second osascript is only spawned once calls actually overlap; when all are
+ * busy it queues on the least loaded one.
+ */
+class JXAWorkerPool {
+  private workers = Array.from({ length: WORKER_POOL_SIZE }, () => new JXAWorker());
+
+  get available(): boolean {
+    return this.workers.some((w) => w.available);
+  }
+
+  run(script: string, timeout: number, signal?: AbortSignal): Promise<string> {
+    const usable = this.workers.filter((w) => w.available);
+    if (usable.length === 0)
+      return Promise.reject(new WorkerUnavailableError("disabled"));
+    const target = usable.reduce((best, w) => (w.load < best.load ? w : best));
+    return target.run(script, timeout, signal);
+  }
+
+  shutdown(): void {
+    for (const w of this.workers) w.shutdown();
+  }
+}
+
+const worker = new JXAWorkerPool();
+process.on("exit", () => worker.shutdown());
@@ -0,0 +1,596 @@
+/**
+ * fake-backend.ts — In-memory DEVONthink backend over a fixture directory
+ *
+ * For development and testing off macOS (DT_BACKEND=fake, DT_FIXTURES=<dir>):
+ *
+ *   <dir>/<Database>/              each top-level directory is a database
+ *   <dir>/<Database>/<Group>/...   subdirectories are groups
+ *   *.md, *.txt, *.html            documents (markdown, txt, html records)
+ *   *.json                         a record described in JSON
+ *
+ * Markdown files may start with a front matter block, and JSON records use the
+ * same fields: name, uuid, type (record type), tags, created, modified, rating,
+ * label, flagged, unread, url, comment; JSON records carry their text in "content".
+ * UUIDs default to a stable hash of the file path.
+ *
+ * Search, "See Also" and classification are word-overlap approximations of
+ * DEVONthink's, good enough to exercise the agent, indexing and hybrid search.
+ */
+
+import { createHash } from "node:crypto";
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import { basename, extname, join, resolve } from "node:path";
+import type {
+  ClassifyProposal,
+  DatabaseInfo,
+  DevonthinkBackend,
+  GroupContents,
+  RecordContent,
+  RecordImage,
+  RecordMetadata,
+  RecordSummary,
+  RelatedRecord,
+  SearchResults,
+} from "./backend.js";
+import { BridgeError } from "./errors.js";
+import {
+  buildSearchQuery,
+  compileSearchFilters,
+  matchesFilters,
+  type SearchFilters,
+} from "./search-filters.js";
+import type { PageRequest, SortOrder } from "./pagination.js";
+
+/** Record type per document file extension */
+const FILE_TYPES: Record<string, string> = {
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "txt",
+  ".html": "html",
+  ".htm": "html",
+};
+
+/** Same exclusions as listAllRecordsScript */
+const NOT_INDEXABLE = new Set([
+  "group",
+  "smart group",
+  "feed",
+  "picture",
+  "movie",
+  "sound",
+  "unknown",
+]);
+
+interface FakeRecord {
+  uuid: string;
+  name: string;
+  recordType: string;
+  database: string;
+  /** Path of the parent group, e.g. "/Papers/" (DEVONthink's location) */
+  location: string;
+  path: string;
+  content: string;
+  tags: string[];
+  created: Date;
+  modified: Date;
+  rating: number;
+  label: number;
+  flagged: boolean;
+  unread: boolean;
+  url: string;
+  comment: string;
+  /** Child uuids (groups only) */
+  children: string[];
+  /** Lowercased word set for related/classify scoring */
+  words: Set<string>;
+}
+
+interface FakeDatabase {
+  uuid: string;
+  name: string;
+  path: string;
+  root: FakeRecord;
+}
+
+export class FakeBackend implements DevonthinkBackend {
+  readonly name = "fake";
+  private databases: FakeDatabase[] = [];
+  private records = new Map<string, FakeRecord>();
+
+  /** Loads the whole fixture directory up front, so bad fixtures fail at startup */
+  constructor(dir: string) {
+    const root = resolve(dir);
+    let entries;
+    try {
+      entries = readdirSync(root, { withFileTypes: true });
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new Error(`Failed to read DEVONthink fixtures ${root}: ${msg}`);
+    }
+    for (const entry of sortByName(entries)) {
+      if (!entry.isDirectory() || entry.name.startsWith(".")) continue;
+      const path = join(root, entry.name);
+      const dbRoot = this.addGroup(entry.name, entry.name, "", path);
+      this.databases.push({
+        uuid: stableUuid(`database:${entry.name}`),
+        name: entry.name,
+        path,
+        root: dbRoot,
+      });
+      this.loadGroup(dbRoot, path);
+    }
+    if (this.databases.length === 0) {
+      throw new Error(`No databases (subdirectories) in DEVONthink fixtures ${root}`);
+    }
+  }
+
+  // ─── DevonthinkBackend ─────────────────────────────────
+
+  async searchRecords(
+    query: string,
+    database?: string,
+    limit: number = 20,
+    filters: SearchFilters = {},
+    page: PageRequest = { offset: 0, sort: "score" },
+    signal?: AbortSignal,
+  ): Promise<SearchResults> {
+    signal?.throwIfAborted();
+    const compiled = compileSearchFilters(filters);
+    // Validates like the JXA backend; the fake then matches on the raw query
+    buildSearchQuery(query, filters);
+    let scope = [...this.records.values()];
+    if (filters.groupUuid) {
+      const group = this.records.get(filters.groupUuid);
+      if (!group) {
+        throw new BridgeError(
+          "record_not_found",
+          `Group not found: ${filters.groupUuid}`,
+        );
+      }
+      scope = this.descendants(group);
+    } else if (database) {
+      if (!this.findDatabase(database)) {
+        throw new BridgeError("database_not_found", `Database not found: ${database}`);
+      }
+      scope = scope.filter((r) => r.database === database);
+    }
+    const terms = parseQuery(query);
+    const hits = scope
+      .filter((r) => !this.isDatabaseRoot(r) && matchesFilters(r, compiled))
+      .map((r) => ({ r, score: matchScore(r, terms) }))
+      .filter((m) => m.score > 0)
+      .sort(pageOrder(page.sort));
+    return {
+      totalCount: hits.length,
+      offset: page.offset,
+      sort: page.sort,
+      results: hits.slice(page.offset, page.offset + limit).map(({ r, score }) => ({
+        uuid: r.uuid,
+        name: r.name,
+        score,
+        recordType: r.recordType,
+        tags: r.tags,
+        location: r.location,
+        database: r.database,
+        modificationDate: r.modified.toISOString(),
+      })),
+    };
+  }
+
+  async getRecordContent(
+    uuid: string,
+    maxLength: number = 16000,
+    signal?: AbortSignal,
+  ): Promise<RecordContent> {
+    signal?.throwIfAborted();
+    const r = this.getRecord(uuid);
+    const format =
+      r.recordType === "markdown"
+        ? "markdown"
+        : r.recordType === "html"
+          ? "html"
+          : "plain_text";
+    return {
+      uuid: r.uuid,
+      name: r.name,
+      recordType: r.recordType,
+      contentFormat: format,
+      content: r.content.slice(0, maxLength),
+      truncated: r.content.length > maxLength,
+      totalLength: r.content.length,
+      wordCount: countWords(r.content),
+      path: r.path,
+    };
+  }
+
+  async getRecordMetadata(uuid: string, signal?: AbortSignal): Promise<RecordMetadata> {
+    signal?.throwIfAborted();
+    const r = this.getRecord(uuid);
+    return {
+      uuid: r.uuid,
+      name: r.name,
+      recordType: r.recordType,
+      tags: r.tags,
+      rating: r.rating,
+      label: r.label,
+      state: r.flagged,
+      location: r.location,
+      url: r.url,
+      comment: r.comment,
+      referenceURL: `x-devonthink-item://${r.uuid}`,
+      creationDate: r.created.toISOString(),
+      modificationDate: r.modified.toISOString(),
+      size: Buffer.byteLength(r.content),
+      wordCount: countWords(r.content),
+      numberOfDuplicates: 0,
+      numberOfReplicants: 0,
+      database: r.database,
+      customMetaData: {},
+    };
+  }
+
+  async viewRecordImage(
+    uuid: string,
+    _page?: number,
+    signal?: AbortSignal,
+  ): Promise<RecordImage> {
+    signal?.throwIfAborted();
+    const r = this.getRecord(uuid);
+    throw new BridgeError(
+      "script_error",
+      `Record type '${r.recordType}' has no image in the fixture backend`,
+    );
+  }
+
+  async listDatabases(signal?: AbortSignal): Promise<DatabaseInfo[]> {
+    signal?.throwIfAborted();
+    return this.databases.map((db) => ({
+      uuid: db.uuid,
+      name: db.name,
+      path: db.path,
+      recordCount: [...this.records.values()].filter(
+        (r) => r.database === db.name && r !== db.root,
+      ).length,
+    }));
+  }
+
+  async listGroupContents(
+    uuid?: string,
+    limit: number = 30,
+    page: PageRequest = { offset: 0, sort: "name" },
+    signal?: AbortSignal,
+  ): Promise<GroupContents> {
+    signal?.throwIfAborted();
+    // Without a uuid, the first database stands in for DEVONthink's current database
+    const parent = uuid ? this.records.get(uuid) : this.databases[0].root;
+    if (!parent) throw new BridgeError("record_not_found", "Group not found");
+    const kids = parent.children
+      .map((id) => ({ r: this.records.get(id)!, score: 0 }))
+      .sort(pageOrder(page.sort));
+    return {
+      parentName: parent.name,
+      totalCount: kids.length,
+      offset: page.offset,
+      sort: page.sort,
+      children: kids.slice(page.offset, page.offset + limit).map(({ r: c }) => ({
+        uuid: c.uuid,
+        name: c.name,
+        recordType: c.recordType,
+        size: Buffer.byteLength(c.content),
+        childCount: c.children.length,
+        modificationDate: c.modified.toISOString(),
+      })),
+    };
+  }
+
+  async getRelatedRecords(
+    uuid: string,
+    limit: number = 10,
+    signal?: AbortSignal,
+  ): Promise<RelatedRecord[]> {
+    signal?.throwIfAborted();
+    const rec = this.getRecord(uuid);
+    return this.documents(rec.database)
+      .filter((r) => r.uuid !== uuid)
+      .map((r) => ({ r, score: similarity(rec.words, r.words) }))
+      .filter((m) => m.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ r, score }) => ({
+        uuid: r.uuid,
+        name: r.name,
+        score,
+        recordType: r.recordType,
+        tags: r.tags,
+        database: r.database,
+      }));
+  }
+
+  async classifyRecord(uuid: string, signal?: AbortSignal): Promise<ClassifyProposal[]> {
+    signal?.throwIfAborted();
+    const rec = this.getRecord(uuid);
+    // A group scores by how much the record resembles the documents already in it
+    const groups = [...this.records.values()].filter(
+      (g) => g.recordType === "group" && g.database === rec.database,
+    );
+    return groups
+      .map((g) => {
+        const docs = g.children
+          .map((id) => this.records.get(id)!)
+          .filter((c) => c.recordType !== "group" && c.uuid !== uuid);
+        const total = docs.reduce((sum, d) => sum + similarity(rec.words, d.words), 0);
+        return { g, score: docs.length > 0 ? total / docs.length : 0 };
+      })
+      .filter((m) => m.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, 5)
+      .map(({ g, score }) => ({
+        uuid: g.uuid,
+        name: g.name,
+        score,
+        location: g.location,
+        database: g.database,
+      }));
+  }
+
+  async listAllRecords(database?: string): Promise<RecordSummary[]> {
+    return this.documents(database).map((r) => ({
+      uuid: r.uuid,
+      name: r.name,
+      recordType: r.recordType,
+      database: r.database,
+      modificationDate: r.modified.toISOString(),
+    }));
+  }
+
+  // ─── Loading ───────────────────────────────────────────
+
+  private loadGroup(group: FakeRecord, dir: string): void {
+    const location = `${group.location}${this.isDatabaseRoot(group) ? "" : group.name + "/"}`;
+    for (const entry of sortByName(readdirSync(dir, { withFileTypes: true }))) {
+      if (entry.name.startsWith(".")) continue;
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        const child = this.addGroup(entry.name, group.database, location, path);
+        group.children.push(child.uuid);
+        this.loadGroup(child, path);
+      } else if (entry.isFile()) {
+        const record = this.loadRecord(path, group.database, location);
+        if (record) group.children.push(record.uuid);
+      }
+    }
+  }
+
+  private addGroup(
+    name: string,
+    database: string,
+    location: string,
+    path: string,
+  ): FakeRecord {
+    const stat = statSync(path);
+    return this.add({
+      uuid: stableUuid(`${database}:${location}${name}/`),
+      name,
+      recordType: "group",
+      database,
+      location: location || "/",
+      path,
+      content: "",
+      tags: [],
+      created: stat.birthtime,
+      modified: stat.mtime,
+      rating: 0,
+      label: 0,
+      flagged: false,
+      unread: false,
+      url: "",
+      comment: "",
+      children: [],
+      words: new Set(),
+    });
+  }
+
+  private loadRecord(
+    path: string,
+    database: string,
+    location: string,
+  ): FakeRecord | null {
+    const ext = extname(path).toLowerCase();
+    if (ext !== ".json" && !FILE_TYPES[ext]) return null;
+
+    const raw = readFileSync(path, "utf-8");
+    let meta: Record<string, unknown>;
+    let content: string;
+    try {
+      if (ext === ".json") {
+        meta = JSON.parse(raw) as Record<string, unknown>;
+        content = String(meta.content ?? "");
+      } else {
+        ({ meta, content } = splitFrontMatter(raw));
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new Error(`Invalid DEVONthink fixture ${path}: ${msg}`);
+    }
+
+    const stat = statSync(path);
+    const name = String(meta.name ?? basename(path, extname(path)));
+    const tags = toList(meta.tags);
+    return this.add({
+      uuid: String(meta.uuid ?? stableUuid(`${database}:${location}${basename(path)}`)),
+      name,
+      recordType: String(meta.type ?? FILE_TYPES[ext] ?? "txt"),
+      database,
+      location,
+      path,
+      content,
+      tags,
+      created: toDate(meta.created, stat.birthtime),
+      modified: toDate(meta.modified, stat.mtime),
+      rating: Number(meta.rating) || 0,
+      label: Number(meta.label) || 0,
+      flagged: meta.flagged === true || meta.flagged === "true",
+      unread: meta.unread === true || meta.unread === "true",
+      url: String(meta.url ?? ""),
+      comment: String(meta.comment ?? ""),
+      children: [],
+      words: wordSet(`${name} ${tags.join(" ")} ${content}`),
+    });
+  }
+
+  private add(record: FakeRecord): FakeRecord {
+    if (this.records.has(record.uuid)) {
+      throw new Error(
+        `Duplicate uuid ${record.uuid} in DEVONthink fixtures (${record.path})`,
+      );
+    }
+    this.records.set(record.uuid, record);
+    return record;
+  }
+
+  // ─── Helpers ───────────────────────────────────────────
+
+  private getRecord(uuid: string): FakeRecord {
+    const record = this.records.get(uuid);
+    if (!record) throw new BridgeError("record_not_found", "Record not found");
+    return record;
+  }
+
+  private findDatabase(name: string): FakeDatabase | undefined {
+    return this.databases.find((db) => db.name === name);
+  }
+
+  private isDatabaseRoot(record: FakeRecord): boolean {
+    return this.databases.some((db) => db.root === record);
+  }
+
+  /** Everything below a group, at any depth */
+  private descendants(group: FakeRecord): FakeRecord[] {
+    return group.children.flatMap((id) => {
+      const child = this.records.get(id)!;
+      return [child, ...this.descendants(child)];
+    });
+  }
+
+  /** Indexable documents, optionally in one database */
+  private documents(database?: string): FakeRecord[] {
+    return [...this.records.values()].filter(
+      (r) => !NOT_INDEXABLE.has(r.recordType) && (!database || r.database === database),
+    );
+  }
+}
+
+// ─── Fixture Parsing ─────────────────────────────────────
+
+function sortByName<T extends { name: string }>(entries: T[]): T[] {
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Deterministic DEVONthink-style uuid (uppercase 8-4-4-4-12) from a key */
+function stableUuid(key: string): string {
+  const h = createHash("sha1").update(key).digest("hex").toUpperCase();
+  return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20, 32)}`;
+}
+
+/**
+ * Split a "---" front matter block of `key: value` lines from the body.
+ * List values may be written as `[a, b]` or `a, b`.
+ */
+function splitFrontMatter(raw: string): {
+  meta: Record<string, unknown>;
+  content: string;
+} {
+  const match = raw.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/);
+  if (!match) return { meta: {}, content: raw };
+  const meta: Record<string, unknown> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const sep = line.indexOf(":");
+    if (sep <= 0) continue;
+    const value = line.slice(sep + 1).trim();
+    meta[line.slice(0, sep).trim()] = value.replace(/^["']|["']$/g, "");
+  }
+  return { meta, content: raw.slice(match[0].length) };
+}
+
+function toList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value !== "string") return [];
+  return value
+    .replace(/^\[|\]$/g, "")
+    .split(",")
+    .map((s) => s.trim().replace(/^["']|["']$/g, ""))
+    .filter(Boolean);
+}
+
+function toDate(value: unknown, fallback: Date): Date {
+  if (typeof value !== "string" && typeof value !== "number") return fallback;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? fallback : date;
+}
+
+// ─── Scoring ─────────────────────────────────────────────
+
+/** Comparator for a page sort order; ties by name, then uuid */
+function pageOrder(
+  sort: SortOrder,
+): (a: { r: FakeRecord; score: number }, b: { r: FakeRecord; score: number }) => number {
+  const byName = (a: { r: FakeRecord }, b: { r: FakeRecord }) =>
+    a.r.name.localeCompare(b.r.name) || a.r.uuid.localeCompare(b.r.uuid);
+  if (sort === "score") return (a, b) => b.score - a.score || byName(a, b);
+  if (sort === "modified") {
+    return (a, b) => b.r.modified.getTime() - a.r.modified.getTime() || byName(a, b);
+  }
+  return byName;
+}
+
+/** Lowercased search terms; quoted phrases stay together, "*" matches everything */
+function parseQuery(query: string): string[] {
+  const terms: string[] = [];
+  for (const m of query.matchAll(/"([^"]+)"|(\S+)/g)) {
+    const term = (m[1] ?? m[2]).toLowerCase();
+    if (term !== "and") terms.push(term);
+  }
+  return terms;
+}
+
+/** 0 unless every term occurs; name and tag hits weigh more than body hits */
+function matchScore(record: FakeRecord, terms: string[]): number {
+  if (terms.length === 0 || (terms.length === 1 && terms[0] === "*")) return 50;
+  const name = record.name.toLowerCase();
+  const tags = record.tags.join(" ").toLowerCase();
+  const body = record.content.toLowerCase();
+  let score = 0;
+  for (const term of terms) {
+    const hits =
+      countOccurrences(name, term) * 5 +
+      countOccurrences(tags, term) * 3 +
+      countOccurrences(body, term);
+    if (hits === 0) return 0;
+    score += hits;
+  }
+  return Math.min(100, Math.round((100 * score) / (score + 10)));
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  for (let i = text.indexOf(term); i !== -1; i = text.indexOf(term, i + term.length)) {
+    count++;
+  }
+  return count;
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []);
+}
+
+/** Jaccard overlap of two word sets on DEVONthink's 0–100 scale */
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const w of a) if (b.has(w)) shared++;
+  return Math.round((100 * shared) / (a.size + b.size - shared));
+}
+
+function countWords(text: string): number {
+  return text.match(/\S+/g)?.length ?? 0;
+}
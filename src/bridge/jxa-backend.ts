@@ -0,0 +1,97 @@
+/**
+ * jxa-backend.ts — DEVONthink backend over JXA (default)
+ *
+ * Each method builds a JXA script → calls executor → parses the JSON response.
+ */
+
+import { runJXAJSON } from "./executor.js";
+import { searchScript, getRelatedScript, classifyScript } from "./scripts/search.js";
+import {
+  getRecordContentScript,
+  getRecordMetadataScript,
+  viewRecordImageScript,
+} from "./scripts/records.js";
+import {
+  listDatabasesScript,
+  listGroupContentsScript,
+  listAllRecordsScript,
+} from "./scripts/databases.js";
+import type {
+  ClassifyProposal,
+  DatabaseInfo,
+  DevonthinkBackend,
+  GroupContents,
+  RecordContent,
+  RecordImage,
+  RecordMetadata,
+  RecordSummary,
+  RelatedRecord,
+  SearchResults,
+} from "./backend.js";
+import type { SearchFilters } from "./search-filters.js";
+import type { PageRequest } from "./pagination.js";
+
+export class JXABackend implements DevonthinkBackend {
+  readonly name = "jxa";
+
+  async searchRecords(
+    query: string,
+    database?: string,
+    limit?: number,
+    filters?: SearchFilters,
+    page?: PageRequest,
+    signal?: AbortSignal,
+  ) {
+    return runJXAJSON<SearchResults>(
+      searchScript(query, database, limit, filters, page),
+      undefined,
+      signal,
+    );
+  }
+
+  async getRecordContent(uuid: string, maxLength?: number, signal?: AbortSignal) {
+    return runJXAJSON<RecordContent>(
+      getRecordContentScript(uuid, maxLength),
+      undefined,
+      signal,
+    );
+  }
+
+  async getRecordMetadata(uuid: string, signal?: AbortSignal) {
+    return runJXAJSON<RecordMetadata>(getRecordMetadataScript(uuid), undefined, signal);
+  }
+
+  async viewRecordImage(uuid: string, page?: number, signal?: AbortSignal) {
+    return runJXAJSON<RecordImage>(viewRecordImageScript(uuid, page), undefined, signal);
+  }
+
+  async listDatabases(signal?: AbortSignal) {
+    return runJXAJSON<DatabaseInfo[]>(listDatabasesScript(), undefined, signal);
+  }
+
+  async listGroupContents(
+    uuid?: string,
+    limit?: number,
+    page?: PageRequest,
+    signal?: AbortSignal,
+  ) {
+    return runJXAJSON<GroupContents>(
+      listGroupContentsScript(uuid, limit, page),
+      undefined,
+      signal,
+    );
+  }
+
+  async getRelatedRecords(uuid: string, limit?: number, signal?: AbortSignal) {
+    return runJXAJSON<RelatedRecord[]>(getRelatedScript(uuid, limit), undefined, signal);
+  }
+
+  async classifyRecord(uuid: string, signal?: AbortSignal) {
+    return runJXAJSON<ClassifyProposal[]>(classifyScript(uuid), undefined, signal);
+  }
+
+  /** Uses a longer timeout for large databases */
+  async listAllRecords(database?: string) {
+    return runJXAJSON<RecordSummary[]>(listAllRecordsScript(database), 180_000); // 3 min timeout for large databases
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * pagination.ts — Paging for search_records and list_group_contents
+ *
+ * Backends return one page (offset + limit) of a stably sorted list plus the
+ * total count. devonthink.ts hands the model an opaque nextCursor for the
+ * following page; a cursor is tied to the request it came from, so it cannot
+ * silently page through a different search or group.
+ */
+
+import { createHash } from "node:crypto";
+
+/**
+ * Sort orders. Ties fall back to name, then a fixed order, so pages never overlap:
+ * - score:    relevance, highest first (search only; DEVONthink's own ranking,
+ *             which already gives a fixed order, is used as-is)
+ * - name:     alphabetical
+ * - modified: most recently modified first
+ */
+export type SortOrder = "score" | "name" | "modified";
+
+export const SORT_ORDERS: SortOrder[] = ["score", "name", "modified"];
+
+/** The page a backend should return */
+export interface PageRequest {
+  offset: number;
+  sort: SortOrder;
+}
+
+/** Paging parameters as the tools receive them */
+export interface PageInput {
+  offset?: number;
+  cursor?: string;
+  sort?: SortOrder;
+}
+
+/** Paging fields included in every paged response */
+export interface PageInfo {
+  totalCount: number;
+  offset: number;
+  sort: SortOrder;
+  /** Pass as cursor to get the next page; absent on the last page */
+  nextCursor?: string;
+}
+
+const INVALID_CURSOR =
+  "Invalid cursor; use the nextCursor value from the previous result";
+
+interface CursorData {
+  /** Request key (see requestKey) */
+  k: string;
+  o: number;
+  s: SortOrder;
+}
+
+/**
+ * Resolve offset/cursor/sort into a PageRequest. A cursor wins over offset and
+ * sort; it must come from a request with the same key.
+ */
+export function resolvePage(
+  input: PageInput,
+  key: string,
+  defaultSort: SortOrder,
+  sorts: SortOrder[] = SORT_ORDERS,
+): PageRequest {
+  if (input.cursor) {
+    const cursor = decodeCursor(input.cursor);
+    if (cursor.k !== key) {
+      throw new Error(
+        "This cursor belongs to a different request; repeat the request without cursor to start over",
+      );
+    }
+    if (!sorts.includes(cursor.s)) {
+      throw new Error(INVALID_CURSOR);
+    }
+    return { offset: cursor.o, sort: cursor.s };
+  }
+  const sort = input.sort ?? defaultSort;
+  if (!sorts.includes(sort)) {
+    throw new Error(`Invalid sort "${sort}" (use ${sorts.join(", ")})`);
+  }
+  const offset = Math.floor(Number(input.offset ?? 0));
+  if (!Number.isFinite(offset) || offset < 0) {
+    throw new Error(`Invalid offset ${input.offset} (use 0 or more)`);
+  }
+  return { offset, sort };
+}
+
+/** Cursor for the page after one of `count` items, or undefined on the last page */
+export function nextCursor(
+  key: string,
+  page: PageRequest,
+  count: number,
+  totalCount: number,
+): string | undefined {
+  const next = page.offset + count;
+  if (count === 0 || next >= totalCount) return undefined;
+  const data: CursorData = { k: key, o: next, s: page.sort };
+  return Buffer.from(JSON.stringify(data)).toString("base64url");
+}
+
+/** Short stable key identifying a request's parameters (excluding paging) */
+export function requestKey(params: unknown): string {
+  return createHash("sha1").update(JSON.stringify(params)).digest("hex").slice(0, 12);
+}
+
+function decodeCursor(cursor: string): CursorData {
+  try {
+    const data = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+    if (
+      typeof data.k === "string" &&
+      Number.isInteger(data.o) &&
+      data.o >= 0 &&
+      SORT_ORDERS.includes(data.s)
+    ) {
+      return data as CursorData;
+    }
+  } catch {
+    // fall through
+  }
+  throw new Error(INVALID_CURSOR);
+}
@@ -3,6 +3,7 @@
  */
 
 import { escapeForJXA } from "../executor.js";
+import type { PageRequest } from "../pagination.js";
 
 /**
  * List all document records across databases (metadata only, no content).
@@ -67,10 +68,16 @@ export function listDatabasesScript(): string {
 }
 
 /**
- * List the direct children of a group.
+ * List one page of the direct children of a group, sorted by name or by
+ * modification date (newest first), ties by name then position in the group.
+ * Names and dates are fetched in bulk; details only for the page.
  * If uuid is empty, lists the current database's root contents.
  */
-export function listGroupContentsScript(uuid?: string, limit: number = 30): string {
+export function listGroupContentsScript(
+  uuid?: string,
+  limit: number = 30,
+  page: PageRequest = { offset: 0, sort: "name" },
+): string {
   const parent = uuid
     ? `app.getRecordWithUuid(${escapeForJXA(uuid)})`
     : "app.currentDatabase().root()";
@@ -80,21 +87,31 @@ export function listGroupContentsScript(uuid?: string, limit: number = 30): stri
   const parent = ${parent};
   if (!parent) return JSON.stringify({error: "Group not found"});
   const kids = parent.children();
-  const limit = Math.min(kids.length, ${limit});
+  const names = parent.children.name();
+  const modified = parent.children.modificationDate();
+  const order = kids.map((_, i) => i);
+  const byName = (a, b) => names[a].localeCompare(names[b]) || a - b;
+  order.sort(${page.sort === "modified" ? "(a, b) => modified[b] - modified[a] || byName(a, b)" : "byName"});
   const out = [];
-  for (let i = 0; i < limit; i++) {
+  const end = Math.min(order.length, ${page.offset} + ${limit});
+  for (let k = ${page.offset}; k < end; k++) {
+    const i = order[k];
     const c = kids[i];
+    const rType = c.recordType();
     out.push({
       uuid: c.uuid(),
-      name: c.name(),
-      recordType: c.recordType(),
+      name: names[i],
+      recordType: rType,
       size: c.size(),
-      childCount: c.recordType() === "group" ? c.children().length : 0,
+      childCount: rType === "group" ? c.children().length : 0,
+      modificationDate: modified[i].toISOString(),
     });
   }
   return JSON.stringify({
     parentName: parent.name(),
-    totalChildren: kids.length,
+    totalCount: kids.length,
+    offset: ${page.offset},
+    sort: ${escapeForJXA(page.sort)},
     children: out,
   });
 })()`;
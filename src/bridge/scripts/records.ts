@@ -64,7 +64,7 @@ export function getRecordContentScript(uuid: string, maxLength: number = 16000):
       name: r.name(),
       recordType: rType,
       contentFormat: "image",
-      content: "[This record is an image file; text content cannot be extracted]",
+      content: "[This record is an image file; text content cannot be extracted. Use view_record_image to look at it]",
       path: filePath,
       truncated: false,
       totalLength: 0,
@@ -141,5 +141,95 @@ export function getRecordMetadataScript(uuid: string): string {
 })()`;
 }
 
+/**
+ * Render a picture record, or one page of a PDF, as a downsized JPEG (base64).
+ * Uses AppKit/PDFKit through the ObjC bridge; the image is never upscaled.
+ * Throws unless page is a whole number ≥ 1 (it comes from the model unchecked).
+ */
+export function viewRecordImageScript(
+  uuid: string,
+  page: number = 1,
+  maxDimension: number = 1568,
+): string {
+  if (!Number.isInteger(page) || page < 1) {
+    throw new Error(`Invalid page ${JSON.stringify(page)} (use a page number from 1)`);
+  }
+  const u = escapeForJXA(uuid);
+  return `(() => {
+  ObjC.import("AppKit");
+  ObjC.import("Quartz");
+  const app = Application("DEVONthink");
+  const r = app.getRecordWithUuid(${u});
+  if (!r) return JSON.stringify({error: "Record not found"});
+
+  const rType = r.recordType();
+  let filePath = "";
+  try { filePath = r.path() || ""; } catch(e) {}
+  if (!filePath) return JSON.stringify({error: "Record has no file on disk"});
+
+  const maxDim = ${maxDimension};
+  const page = ${JSON.stringify(page)};
+  let pageCount = 0;
+  let image = null;
+
+  if (rType === "picture") {
+    image = $.NSImage.alloc.initWithContentsOfFile(filePath);
+  } else if (rType === "PDF document" || filePath.toLowerCase().endsWith(".pdf")) {
+    const doc = $.PDFDocument.alloc.initWithURL($.NSURL.fileURLWithPath(filePath));
+    if (!doc || doc.isNil()) return JSON.stringify({error: "Could not open PDF"});
+    pageCount = doc.pageCount;
+    if (page < 1 || page > pageCount) {
+      return JSON.stringify({error: "Page " + page + " is out of range (1-" + pageCount + ")"});
+    }
+    const pdfPage = doc.pageAtIndex(page - 1);
+    const box = pdfPage.boundsForBox($.kPDFDisplayBoxMediaBox);
+    const pdfScale = maxDim / Math.max(box.size.width, box.size.height);
+    image = pdfPage.thumbnailOfSizeForBox(
+      $.NSMakeSize(box.size.width * pdfScale, box.size.height * pdfScale),
+      $.kPDFDisplayBoxMediaBox
+    );
+  } else {
+    return JSON.stringify({error: "Record type '" + rType + "' has no image to view (pictures and PDFs only)"});
+  }
+  if (!image || image.isNil()) return JSON.stringify({error: "Could not read image file"});
+
+  // Downsize (never upscale) onto a white background and encode as JPEG
+  const size = image.size;
+  const scale = Math.min(1, maxDim / Math.max(size.width, size.height));
+  const w = Math.max(1, Math.round(size.width * scale));
+  const h = Math.max(1, Math.round(size.height * scale));
+  const rep = $.NSBitmapImageRep.alloc.initWithBitmapDataPlanesPixelsWidePixelsHighBitsPerSampleSamplesPerPixelHasAlphaIsPlanarColorSpaceNameBytesPerRowBitsPerPixel(
+    null, w, h, 8, 4, true, false, $.NSDeviceRGBColorSpace, 0, 0
+  );
+  $.NSGraphicsContext.saveGraphicsState;
+  $.NSGraphicsContext.setCurrentContext($.NSGraphicsContext.graphicsContextWithBitmapImageRep(rep));
+  $.NSColor.whiteColor.set;
+  $.NSRectFill($.NSMakeRect(0, 0, w, h));
+  image.drawInRectFromRectOperationFraction(
+    $.NSMakeRect(0, 0, w, h),
+    $.NSMakeRect(0, 0, size.width, size.height),
+    $.NSCompositingOperationSourceOver,
+    1.0
+  );
+  $.NSGraphicsContext.restoreGraphicsState;
+  const jpeg = rep.representationUsingTypeProperties(
+    $.NSBitmapImageFileTypeJPEG,
+    $({NSImageCompressionFactor: 0.8})
+  );
+  if (!jpeg || jpeg.isNil()) return JSON.stringify({error: "Could not encode image"});
+
+  return JSON.stringify({
+    uuid: r.uuid(),
+    name: r.name(),
+    recordType: rType,
+    page: pageCount ? page : undefined,
+    pageCount: pageCount || undefined,
+    width: w,
+    height: h,
+    image: { mediaType: "image/jpeg", data: jpeg.base64EncodedStringWithOptions(0).js },
+  });
+})()`;
+}
+
 // Note: Write operations (createRecord, moveRecord, createLink, etc.) have been
 // intentionally removed to enforce the strict read-only principle of this Agent.
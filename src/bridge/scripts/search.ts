@@ -3,26 +3,48 @@
  */
 
 import { escapeForJXA } from "../executor.js";
+import {
+  buildSearchQuery,
+  compileSearchFilters,
+  type SearchFilters,
+} from "../search-filters.js";
+import type { PageRequest } from "../pagination.js";
 
 /**
  * Generate a JXA script to search DEVONthink databases.
- * Returns JSON array [{uuid, name, score, recordType, tags, location, database, modificationDate}]
+ * Kinds and tags narrow the query itself; when filters are given they are
+ * re-checked on each hit, reading only the properties a filter needs. A group
+ * scope replaces the database.
+ * Search results are not an element array, so sort keys cannot be fetched in
+ * bulk. The score order is DEVONthink's own relevance order and needs no keys;
+ * name and modified orders read one key per hit (names for date ties only).
+ * Full details are only read for the requested page.
+ * Returns JSON {totalCount, offset, sort, results: [{uuid, name, score, recordType, tags, location, database, modificationDate}]}
  */
 export function searchScript(
   query: string,
   database?: string,
   limit: number = 20,
+  filters: SearchFilters = {},
+  page: PageRequest = { offset: 0, sort: "score" },
 ): string {
-  const q = escapeForJXA(query);
+  const f = JSON.stringify(compileSearchFilters(filters));
+  const q = escapeForJXA(buildSearchQuery(query, filters));
   // JXA's app.databases() returns an ObjectSpecifier which doesn't support ES6 array methods like .find()
   // Must use a for loop for manual lookup
   const dbName = database ? escapeForJXA(database) : "null";
+  const groupUuid = filters.groupUuid ? escapeForJXA(filters.groupUuid) : "null";
 
   return `(() => {
   const app = Application("DEVONthink");
+  const f = ${f};
   let dbRoot = null;
   const dbName = ${dbName};
-  if (dbName) {
+  const groupUuid = ${groupUuid};
+  if (groupUuid) {
+    dbRoot = app.getRecordWithUuid(groupUuid);
+    if (!dbRoot) return JSON.stringify({error: "Group not found: " + groupUuid});
+  } else if (dbName) {
     const allDbs = app.databases();
     for (let i = 0; i < allDbs.length; i++) {
       if (allDbs[i].name() === dbName) { dbRoot = allDbs[i].root(); break; }
@@ -32,13 +54,52 @@ export function searchScript(
   // DT 4.2's search command 'in' parameter requires a record (group) object, not a database object.
   // Use db.root() to get the database's root group as the search scope.
   const results = dbRoot ? app.search(${q}, {in: dbRoot}) : app.search(${q});
-  const limit = Math.min(results.length, ${limit});
+  const matches = (r) => {
+    if (f.recordTypes && f.recordTypes.indexOf(r.recordType()) === -1) return false;
+    if (f.tags) {
+      const have = r.tags().map((t) => t.toLowerCase());
+      const hits = f.tags.filter((t) => have.indexOf(t) !== -1).length;
+      if (f.tagMatch === "any" ? hits === 0 : hits < f.tags.length) return false;
+    }
+    if (f.createdAfter !== undefined || f.createdBefore !== undefined) {
+      const created = r.creationDate().getTime();
+      if (f.createdAfter !== undefined && created < f.createdAfter) return false;
+      if (f.createdBefore !== undefined && created >= f.createdBefore) return false;
+    }
+    if (f.modifiedAfter !== undefined || f.modifiedBefore !== undefined) {
+      const modified = r.modificationDate().getTime();
+      if (f.modifiedAfter !== undefined && modified < f.modifiedAfter) return false;
+      if (f.modifiedBefore !== undefined && modified >= f.modifiedBefore) return false;
+    }
+    if (f.flagged !== undefined && r.state() !== f.flagged) return false;
+    if (f.unread !== undefined && r.unread() !== f.unread) return false;
+    if (f.minRating !== undefined && r.rating() < f.minRating) return false;
+    return true;
+  };
+  const sort = ${escapeForJXA(page.sort)};
+  // tagMatch alone filters nothing
+  const filtered = Object.keys(f).some((k) => k !== "tagMatch");
+  const hits = [];
+  for (let i = 0; i < results.length; i++) {
+    if (!filtered || matches(results[i])) hits.push(i);
+  }
+  const names = {};
+  const nameOf = (i) => (i in names ? names[i] : (names[i] = results[i].name()));
+  const byName = (a, b) => nameOf(a).localeCompare(nameOf(b)) || a - b;
+  if (sort === "modified") {
+    const modified = {};
+    for (const i of hits) modified[i] = results[i].modificationDate().getTime();
+    hits.sort((a, b) => modified[b] - modified[a] || byName(a, b));
+  } else if (sort === "name") {
+    hits.sort(byName);
+  }
   const out = [];
-  for (let i = 0; i < limit; i++) {
-    const r = results[i];
+  const end = Math.min(hits.length, ${page.offset} + ${limit});
+  for (let k = ${page.offset}; k < end; k++) {
+    const r = results[hits[k]];
     out.push({
       uuid: r.uuid(),
-      name: r.name(),
+      name: nameOf(hits[k]),
       score: r.score(),
       recordType: r.recordType(),
       tags: r.tags(),
@@ -47,7 +108,7 @@ export function searchScript(
       modificationDate: r.modificationDate().toISOString(),
     });
   }
-  return JSON.stringify(out);
+  return JSON.stringify({totalCount: hits.length, offset: ${page.offset}, sort: sort, results: out});
 })()`;
 }
 
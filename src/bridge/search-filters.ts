@@ -0,0 +1,177 @@
+/**
+ * search-filters.ts — Structured filters for search_records
+ *
+ * Filters are applied in two steps. Kinds and tags are compiled into DEVONthink
+ * query prefixes (kind:, tags:) so the search itself is narrowed; then every
+ * filter is checked exactly against each hit (the post-filter), because query
+ * prefixes match more loosely and cannot express dates, flags or ratings.
+ * The group scope is not a filter: it becomes the search's "in" group.
+ */
+
+/** Record kinds offered to the model → DEVONthink kind: token and record types */
+export const RECORD_KINDS = {
+  pdf: { query: "pdf", recordTypes: ["PDF document"] },
+  markdown: { query: "markdown", recordTypes: ["markdown"] },
+  text: { query: "text", recordTypes: ["txt", "rtf", "rtfd"] },
+  html: { query: "html", recordTypes: ["html"] },
+  webarchive: { query: "webarchive", recordTypes: ["webarchive"] },
+  image: { query: "image", recordTypes: ["picture"] },
+  bookmark: { query: "bookmark", recordTypes: ["bookmark"] },
+  sheet: { query: "sheet", recordTypes: ["sheet"] },
+} as const;
+
+export type RecordKind = keyof typeof RECORD_KINDS;
+
+export interface SearchFilters {
+  kinds?: RecordKind[];
+  tags?: string[];
+  /** Whether a record needs all of the tags (default) or any of them */
+  tagMatch?: "all" | "any";
+  /** Dates are YYYY-MM-DD or ISO timestamps; "after" is inclusive, "before" exclusive */
+  createdAfter?: string;
+  createdBefore?: string;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  /** Only records inside this group (at any depth); takes precedence over database */
+  groupUuid?: string;
+  flagged?: boolean;
+  unread?: boolean;
+  /** Minimum rating, 0–5 */
+  minRating?: number;
+}
+
+/**
+ * Validated filters in the form the post-filter checks: record types instead of
+ * kinds, lowercased tags and epoch milliseconds. JSON-safe, so the JXA script
+ * can embed it as a literal.
+ */
+export interface CompiledFilters {
+  recordTypes?: string[];
+  tags?: string[];
+  tagMatch: "all" | "any";
+  createdAfter?: number;
+  createdBefore?: number;
+  modifiedAfter?: number;
+  modifiedBefore?: number;
+  flagged?: boolean;
+  unread?: boolean;
+  minRating?: number;
+}
+
+/** Record fields the post-filter looks at */
+export interface FilterableRecord {
+  recordType: string;
+  tags: string[];
+  created: Date;
+  modified: Date;
+  flagged: boolean;
+  unread: boolean;
+  rating: number;
+}
+
+/** Validate filters; throws on unknown kinds, bad dates or ratings */
+export function compileSearchFilters(filters: SearchFilters = {}): CompiledFilters {
+  const compiled: CompiledFilters = { tagMatch: filters.tagMatch ?? "all" };
+  if (compiled.tagMatch !== "all" && compiled.tagMatch !== "any") {
+    throw new Error(`Invalid tag_match "${compiled.tagMatch}" (use "all" or "any")`);
+  }
+
+  if (filters.kinds?.length) {
+    compiled.recordTypes = filters.kinds.flatMap((kind) => {
+      if (!Object.hasOwn(RECORD_KINDS, kind)) {
+        throw new Error(
+          `Unknown record kind "${kind}" (use ${Object.keys(RECORD_KINDS).join(", ")})`,
+        );
+      }
+      return [...RECORD_KINDS[kind].recordTypes];
+    });
+  }
+
+  const tags = (filters.tags ?? []).map((t) => t.trim().toLowerCase()).filter(Boolean);
+  if (tags.length > 0) compiled.tags = tags;
+
+  compiled.createdAfter = parseDate(filters.createdAfter, "created_after");
+  compiled.createdBefore = parseDate(filters.createdBefore, "created_before");
+  compiled.modifiedAfter = parseDate(filters.modifiedAfter, "modified_after");
+  compiled.modifiedBefore = parseDate(filters.modifiedBefore, "modified_before");
+
+  if (filters.flagged !== undefined) compiled.flagged = filters.flagged;
+  if (filters.unread !== undefined) compiled.unread = filters.unread;
+  if (filters.minRating !== undefined) {
+    const rating = Number(filters.minRating);
+    if (!Number.isFinite(rating) || rating < 0 || rating > 5) {
+      throw new Error(`Invalid min_rating ${filters.minRating} (use 0–5)`);
+    }
+    compiled.minRating = rating;
+  }
+  return compiled;
+}
+
+/**
+ * Combine the free-text query with kind:/tags: prefixes for the filters.
+ * Throws when there is nothing to search for (no query, kinds or tags).
+ */
+export function buildSearchQuery(query: string, filters: SearchFilters = {}): string {
+  const parts: string[] = [];
+  if (query.trim()) parts.push(query.trim());
+
+  const kinds = (filters.kinds ?? []).filter((k) => Object.hasOwn(RECORD_KINDS, k));
+  if (kinds.length > 0) {
+    parts.push(anyOf(kinds.map((k) => `kind:${RECORD_KINDS[k].query}`)));
+  }
+
+  const tags = (filters.tags ?? []).map((t) => t.trim()).filter(Boolean);
+  if (tags.length > 0) {
+    const clauses = tags.map((t) => `tags:${quoteTerm(t)}`);
+    parts.push(filters.tagMatch === "any" ? anyOf(clauses) : clauses.join(" "));
+  }
+
+  if (parts.length === 0) {
+    throw new Error("Nothing to search for: give a query, or kinds or tags to filter by");
+  }
+  // Parenthesize the user's query so its OR/NOT cannot swallow the filter prefixes
+  return parts.length > 1 && query.trim()
+    ? `(${parts[0]}) ${parts.slice(1).join(" ")}`
+    : parts.join(" ");
+}
+
+/** The post-filter, for backends that hold records in memory */
+export function matchesFilters(record: FilterableRecord, f: CompiledFilters): boolean {
+  if (f.recordTypes && !f.recordTypes.includes(record.recordType)) return false;
+  if (f.tags) {
+    const have = new Set(record.tags.map((t) => t.toLowerCase()));
+    const hits = f.tags.filter((t) => have.has(t)).length;
+    if (f.tagMatch === "any" ? hits === 0 : hits < f.tags.length) return false;
+  }
+  const created = record.created.getTime();
+  const modified = record.modified.getTime();
+  if (f.createdAfter !== undefined && created < f.createdAfter) return false;
+  if (f.createdBefore !== undefined && created >= f.createdBefore) return false;
+  if (f.modifiedAfter !== undefined && modified < f.modifiedAfter) return false;
+  if (f.modifiedBefore !== undefined && modified >= f.modifiedBefore) return false;
+  if (f.flagged !== undefined && record.flagged !== f.flagged) return false;
+  if (f.unread !== undefined && record.unread !== f.unread) return false;
+  if (f.minRating !== undefined && record.rating < f.minRating) return false;
+  return true;
+}
+
+// ─── Helpers ─────────────────────────────────────────────
+
+function parseDate(value: string | undefined, field: string): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const ms = Date.parse(value);
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid ${field} "${value}" (use YYYY-MM-DD or an ISO timestamp)`);
+  }
+  return ms;
+}
+
+function anyOf(clauses: string[]): string {
+  return clauses.length === 1 ? clauses[0] : `(${clauses.join(" OR ")})`;
+}
+
+/** Quote a tag unless it is a single plain word; embedded quotes are dropped */
+function quoteTerm(term: string): string {
+  const clean = term.replace(/"/g, "");
+  return /^[\p{L}\p{N}_.-]+$/u.test(clean) ? clean : `"${clean}"`;
+}
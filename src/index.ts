@@ -28,13 +28,24 @@ import {
   printHelp,
   createPrompt,
   askQuestion,
+  onInterrupt,
   startSpinner,
   stopSpinner,
+  showThinking,
+  endThinking,
 } from "./ui/terminal.js";
 import { formatToolInput, formatToolResult } from "./ui/formatter.js";
-import { agentLoop, getAgentConfig, type AgentConfig } from "./agent/loop.js";
+import {
+  agentLoop,
+  getAgentConfig,
+  type AgentConfig,
+  type AgentResult,
+  type LoopDetectedEvent,
+  type FailoverEvent,
+} from "./agent/loop.js";
 import { getToolNames } from "./agent/tools.js";
 import { buildExpandPrompt } from "./agent/system-prompt.js";
+import { compactHistory, type CompactionResult } from "./agent/compaction.js";
 import { mkdirSync, writeFileSync } from "node:fs";
 import {
   type ProviderName,
@@ -46,38 +57,162 @@ import {
   getContextLimit,
   validateProviderKey,
   resetProviderCache,
+  snapshotHistory,
+  rollbackHistory,
+  addUsage,
 } from "./agent/providers.js";
 import { buildIndex, getIndexStatus } from "./rag/index-manager.js";
 import { validateEmbeddingKey } from "./rag/embedder.js";
 import { resetStoreCache } from "./rag/hybrid-search.js";
 import { getCurrentVersion, checkForUpdates } from "./updater.js";
+import {
+  type UsageBudget,
+  estimateCost,
+  hasModelRates,
+  totalTokens,
+  wouldExceed,
+} from "./agent/budget.js";
+import { getModelInfo, listModels, validateModel } from "./agent/models.js";
+import { getBackend } from "./bridge/backend.js";
+import { BridgeError } from "./bridge/errors.js";
 
 // ─── Cost Estimation ─────────────────────────────────────
 
-/** Per-million-token rates (USD) for common models */
-const MODEL_RATES: Record<string, { input: number; output: number }> = {
-  "claude-sonnet-4-20250514": { input: 3, output: 15 },
-  "claude-3-5-sonnet-latest": { input: 3, output: 15 },
-  "claude-3-5-haiku-latest": { input: 0.8, output: 4 },
-  "gpt-4o": { input: 2.5, output: 10 },
-  "gpt-4o-mini": { input: 0.15, output: 0.6 },
-  "gemini-2.5-flash": { input: 0.15, output: 0.6 },
-  "gemini-2.5-pro": { input: 1.25, output: 10 },
-  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
-};
-
-function estimateCost(model: string, usage: TokenUsage): number {
-  const rate = MODEL_RATES[model];
-  if (!rate) return 0;
-  return (usage.inputTokens * rate.input + usage.outputTokens * rate.output) / 1_000_000;
-}
-
 function formatCost(model: string, usage: TokenUsage): string {
   const cost = estimateCost(model, usage);
   if (cost <= 0) return "";
   return ` · ~$${cost.toFixed(4)}`;
 }
 
+/** "↑input ↓output" token counts, noting the cached share of input and reasoning share of output */
+function formatTokens(usage: TokenUsage): string {
+  const cached = usage.cacheReadTokens
+    ? ` (${usage.cacheReadTokens.toLocaleString()} cached)`
+    : "";
+  const thinking = usage.thinkingTokens
+    ? ` (${usage.thinkingTokens.toLocaleString()} thinking)`
+    : "";
+  return `↑${usage.inputTokens.toLocaleString()}${cached} ↓${usage.outputTokens.toLocaleString()}${thinking}`;
+}
+
+/** List catalog models by provider for /model (models without tool calling are marked) */
+function printModelCatalog(): void {
+  const providers: ProviderName[] = ["anthropic", "openai", "gemini", "local", "mock"];
+  for (const p of providers) {
+    const models = listModels(p);
+    if (models.length === 0) continue;
+    console.log(`    ${chalk.bold(p)}`);
+    for (const m of models) {
+      const ctx = `${Math.round(m.contextWindow / 1000)}k ctx`;
+      const price = m.pricing ? ` · $${m.pricing.input}/$${m.pricing.output} per M` : "";
+      const notes = [!m.tools && "no tools", m.vision && "vision"].filter(Boolean);
+      const line = `      ${m.id}  ${chalk.gray(ctx + price)}${notes.length ? chalk.gray(` · ${notes.join(", ")}`) : ""}`;
+      console.log(m.tools ? line : chalk.dim(line));
+    }
+  }
+}
+
+/** Spinner text while tools run (tool calls may execute in parallel) */
+function runningText(count: number, name?: string): string {
+  if (count === 1 && name) return `Running ${name}...`;
+  return `Running ${count} tool${count === 1 ? "" : "s"}...`;
+}
+
+/** Flag answers synthesized after the iteration limit (they may be incomplete) */
+function warnIfForced(result: AgentResult): void {
+  if (!result.forcedFinal) return;
+  const reasons: Record<string, string> = {
+    repetition: "Stopped repeated tool calls. ",
+    budget: "Usage budget reached. ",
+  };
+  const reason =
+    reasons[result.forcedReason ?? ""] ??
+    `Iteration limit reached (${result.iterations}). `;
+  log.warn(
+    chalk.yellow.bold(reason) +
+      "This answer was synthesized from the information gathered so far and may be incomplete.",
+  );
+}
+
+/** Warn and return true if the session budget is used up (no further turns run) */
+function sessionBudgetExhausted(config: AgentConfig, usage: TokenUsage): boolean {
+  const model = config.model || getDefaultModel(config.providerName);
+  const none: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  if (!wouldExceed(model, usage, none, config.sessionBudget)) return false;
+  log.warn(
+    "Session usage budget reached (MAX_SESSION_COST / MAX_SESSION_TOKENS). " +
+      "Raise the limit and restart to continue.",
+  );
+  return true;
+}
+
+/** Describe a budget for /usage, with the share already spent if given */
+function formatBudget(budget: UsageBudget, model: string, spent?: TokenUsage): string {
+  const parts: string[] = [];
+  if (budget.maxCostUsd !== undefined) {
+    const cap = `$${budget.maxCostUsd.toFixed(2)}`;
+    if (!hasModelRates(model)) {
+      parts.push(`${cap} ${chalk.gray(`(not enforced: no rates for ${model})`)}`);
+    } else if (spent) {
+      const cost = estimateCost(model, spent);
+      const pct = Math.round((cost / budget.maxCostUsd) * 100);
+      parts.push(`$${cost.toFixed(4)} of ${cap} (${pct}%)`);
+    } else {
+      parts.push(cap);
+    }
+  }
+  if (budget.maxTokens !== undefined) {
+    const cap = budget.maxTokens.toLocaleString();
+    if (spent) {
+      const used = totalTokens(spent);
+      const pct = Math.round((used / budget.maxTokens) * 100);
+      parts.push(`${used.toLocaleString()} of ${cap} tokens (${pct}%)`);
+    } else {
+      parts.push(`${cap} tokens`);
+    }
+  }
+  return parts.join(" · ");
+}
+
+/** Report a repeated tool call (corrective note sent, or tool use stopped) */
+function reportLoop(e: LoopDetectedEvent): void {
+  endThinking();
+  const detail = formatToolInput(e.name, e.input);
+  const outcome =
+    e.action === "warn" ? "asked the model to change approach" : "stopping tool use";
+  log.warn(
+    `Repeated call ${chalk.bold(e.name)}${detail ? " " + detail : ""} (${e.count}×) — ${outcome}`,
+  );
+}
+
+function reportFailover(e: FailoverEvent): void {
+  endThinking();
+  log.warn(
+    `${e.fromProvider}/${e.fromModel} failed (${e.reason.slice(0, 100)}) — ` +
+      `switching to ${chalk.bold(`${e.toProvider}/${e.toModel}`)}`,
+  );
+}
+
+function reportOverflowCompaction(res: CompactionResult): void {
+  endThinking();
+  log.warn(
+    `Context window exceeded — compacted history ${res.oldLength} → ${res.newLength} messages and retried.`,
+  );
+}
+
+/** Provider and model that produced the answer (the last failover target, if any) */
+function answeredBy(
+  result: AgentResult,
+  config: AgentConfig,
+): { providerName: string; model: string } {
+  const last = result.failovers?.at(-1);
+  if (last) return { providerName: last.toProvider, model: last.toModel };
+  return {
+    providerName: config.providerName,
+    model: config.model || getDefaultModel(config.providerName),
+  };
+}
+
 // ─── Preflight Checks ────────────────────────────────────
 
 function preflight(config: AgentConfig): void {
@@ -88,9 +223,16 @@ function preflight(config: AgentConfig): void {
     );
     process.exit(1);
   }
-  if (process.platform !== "darwin") {
+  let backendName: string;
+  try {
+    backendName = getBackend().name; // the fixture backend loads (and validates) here
+  } catch (err: unknown) {
+    log.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+  if (backendName === "jxa" && process.platform !== "darwin") {
     log.warn(
-      "This tool requires macOS osascript. Current platform may not be supported.",
+      "This tool requires macOS osascript. Current platform may not be supported (DT_BACKEND=fake runs on fixtures).",
     );
   }
 }
@@ -104,43 +246,66 @@ async function singleQuery(query: string, config: AgentConfig): Promise<void> {
 
   startSpinner("Thinking...");
   let streamed = false;
+  let running = 0;
 
   const result = await agentLoop(history, provider, config, {
+    onThinking: showThinking,
     onToken: (token) => {
       stopSpinner();
+      endThinking();
       streamed = true;
       process.stdout.write(token);
     },
     onToolCall: (e) => {
       stopSpinner();
+      endThinking();
       if (streamed) {
         console.log();
         streamed = false;
       }
       log.tool(e.name, formatToolInput(e.name, e.input));
-      startSpinner(`Running ${e.name}...`);
+      running++;
+      startSpinner(runningText(running, e.name));
     },
     onToolResult: (e) => {
       stopSpinner();
-      log.toolDone(e.name, e.durationMs);
-      startSpinner("Thinking...");
+      log.toolDone(e.name, e.durationMs, e.cached);
+      running--;
+      startSpinner(running > 0 ? runningText(running) : "Thinking...");
+    },
+    onLoopDetected: (e) => {
+      stopSpinner();
+      reportLoop(e);
+      startSpinner(running > 0 ? runningText(running) : "Thinking...");
+    },
+    onFailover: (e) => {
+      stopSpinner();
+      reportFailover(e);
+      startSpinner(running > 0 ? runningText(running) : "Thinking...");
+    },
+    onCompacted: (res) => {
+      stopSpinner();
+      reportOverflowCompaction(res);
+      startSpinner(running > 0 ? runningText(running) : "Thinking...");
     },
   });
   stopSpinner();
+  endThinking();
 
   if (streamed) {
     console.log(); // Final newline after streamed text
   } else {
     console.log(result.text);
   }
+  warnIfForced(result);
 
   // Display token usage and cost for single query mode
-  const model = config.model || getDefaultModel(config.providerName);
+  const { providerName, model } = answeredBy(result, config);
   const costStr = formatCost(model, result.usage);
   log.info(
     chalk.gray(
-      `[${config.providerName}/${model} · ${result.iterations} iter · ${result.toolCalls.length} tools` +
-        ` · ↑${result.usage.inputTokens.toLocaleString()} ↓${result.usage.outputTokens.toLocaleString()} tokens${costStr}]`,
+      `[${providerName}/${model} · ${result.iterations} iter · ${result.toolCalls.length} tools` +
+        ` · ${formatTokens(result.usage)} tokens${costStr}]`,
     ),
   );
 }
@@ -169,9 +334,11 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
   const rl = createPrompt();
   let provider: LLMProvider = getProvider(config.providerName);
   let history: ProviderHistory = provider.createHistory();
-  const currentConfig = { ...config };
-  let lastResponse = ""; // Used by /export
   const sessionUsage: TokenUsage = { inputTokens: 0, outputTokens: 0 };
+  // sessionUsage is shared by reference so agentLoop can enforce the session budget;
+  // the onUsage callbacks below keep it current, also for cancelled or failed turns
+  const currentConfig: AgentConfig = { ...config, sessionUsage };
+  let lastResponse = ""; // Used by /export
 
   const prompt = chalk.green.bold("\nYou > ");
 
@@ -211,10 +378,17 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
               `Current: ${chalk.bold(currentConfig.providerName)} / ${chalk.bold(currentConfig.model || getDefaultModel(currentConfig.providerName))}`,
             );
             log.info("Usage: /model <provider> [model_name]");
-            log.info("  provider: anthropic | openai | gemini");
+            log.info("  provider: anthropic | openai | gemini | local | mock");
+            printModelCatalog();
             continue;
           }
-          const validProviders: ProviderName[] = ["anthropic", "openai", "gemini"];
+          const validProviders: ProviderName[] = [
+            "anthropic",
+            "openai",
+            "gemini",
+            "local",
+            "mock",
+          ];
           if (!validProviders.includes(arg as ProviderName)) {
             log.warn(`Invalid provider: ${arg}. Options: ${validProviders.join(", ")}`);
             continue;
@@ -228,14 +402,23 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
             continue;
           }
           const newModel = modelParts[1] || getDefaultModel(newProvider);
+          const unusable = validateModel(newProvider, newModel);
+          if (unusable) {
+            log.error(`Switch failed: ${unusable}.`);
+            continue;
+          }
+          if (!getModelInfo(newModel)) {
+            log.warn(
+              `${newModel} is not in the model catalog; using ${newProvider} default limits and no cost estimate.`,
+            );
+          }
           currentConfig.providerName = newProvider;
           currentConfig.model = newModel;
           resetProviderCache();
           provider = getProvider(newProvider);
-          history = provider.createHistory();
-          lastResponse = "";
+          // History is provider-neutral, so the conversation carries over
           log.success(
-            `Switched to ${chalk.bold(newProvider)} / ${chalk.bold(newModel)} (conversation history cleared)`,
+            `Switched to ${chalk.bold(newProvider)} / ${chalk.bold(newModel)} (conversation kept)`,
           );
           continue;
         }
@@ -247,6 +430,7 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
             log.info("  Example: /expand schistosomiasis ultrasound diagnosis");
             continue;
           }
+          if (sessionBudgetExhausted(currentConfig, sessionUsage)) continue;
 
           log.blank();
           log.info(
@@ -273,9 +457,14 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
             maxIterations: Math.max(currentConfig.maxIterations || 25, 40),
           };
 
+          // Ctrl-C cancels the expansion only; the main conversation is untouched
+          const expandAbort = new AbortController();
+          const disposeExpandInterrupt = onInterrupt(rl, () => expandAbort.abort());
+
           startSpinner("Researching...");
           let expandToolIndex = 0;
           let expandHeaderShown = false;
+          let expandRunning = 0;
 
           try {
             const result = await agentLoop(
@@ -283,8 +472,10 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
               provider,
               expandConfig,
               {
+                onThinking: showThinking,
                 onToken: (token) => {
                   stopSpinner();
+                  endThinking();
                   if (!expandHeaderShown) {
                     log.blank();
                     log.divider();
@@ -295,6 +486,7 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
                 },
                 onToolCall: (e) => {
                   stopSpinner();
+                  endThinking();
                   if (expandHeaderShown) {
                     console.log();
                     expandHeaderShown = false;
@@ -302,20 +494,48 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
                   expandToolIndex++;
                   const detail = formatToolInput(e.name, e.input);
                   log.tool(`[${expandToolIndex}] ${e.name}`, detail);
-                  startSpinner(`Running ${e.name}...`);
+                  expandRunning++;
+                  startSpinner(runningText(expandRunning, e.name));
                 },
                 onToolResult: (e) => {
                   stopSpinner();
                   const summary = formatToolResult(e.name, e.result);
-                  log.toolDone(e.name, e.durationMs);
+                  log.toolDone(e.name, e.durationMs, e.cached);
                   console.log(chalk.gray("     " + summary));
-                  startSpinner("Researching...");
+                  expandRunning--;
+                  startSpinner(
+                    expandRunning > 0 ? runningText(expandRunning) : "Researching...",
+                  );
+                },
+                onLoopDetected: (e) => {
+                  stopSpinner();
+                  reportLoop(e);
+                  startSpinner(
+                    expandRunning > 0 ? runningText(expandRunning) : "Researching...",
+                  );
+                },
+                onFailover: (e) => {
+                  stopSpinner();
+                  reportFailover(e);
+                  startSpinner(
+                    expandRunning > 0 ? runningText(expandRunning) : "Researching...",
+                  );
+                },
+                onCompacted: (res) => {
+                  stopSpinner();
+                  reportOverflowCompaction(res);
+                  startSpinner(
+                    expandRunning > 0 ? runningText(expandRunning) : "Researching...",
+                  );
                 },
                 onText: () => {},
+                onUsage: (usage) => addUsage(sessionUsage, usage),
               },
               expandSystemPrompt,
+              expandAbort.signal,
             );
             stopSpinner();
+            endThinking();
 
             if (expandHeaderShown) {
               console.log();
@@ -326,6 +546,7 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
               console.log(chalk.bold("\nAgent > ") + result.text);
               log.divider();
             }
+            warnIfForced(result);
 
             lastResponse = result.text;
 
@@ -340,17 +561,12 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
               `I completed a research expansion analysis on "${cmdArg}". The full report has been generated. You can export it with /export or ask me follow-up questions about it.`,
             );
 
-            // Accumulate session usage
-            sessionUsage.inputTokens += result.usage.inputTokens;
-            sessionUsage.outputTokens += result.usage.outputTokens;
-
-            const model =
-              currentConfig.model || getDefaultModel(currentConfig.providerName);
+            const { providerName, model } = answeredBy(result, currentConfig);
             const costStr = formatCost(model, result.usage);
             log.info(
               chalk.gray(
-                `[Research Expansion · ${currentConfig.providerName}/${model} · ${result.iterations} iter · ${result.toolCalls.length} tools` +
-                  ` · ↑${result.usage.inputTokens.toLocaleString()} ↓${result.usage.outputTokens.toLocaleString()}${costStr}]`,
+                `[Research Expansion · ${providerName}/${model} · ${result.iterations} iter · ${result.toolCalls.length} tools` +
+                  ` · ${formatTokens(result.usage)}${costStr}]`,
               ),
             );
             log.info(
@@ -358,9 +574,17 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
             );
           } catch (err: unknown) {
             stopSpinner();
-            log.error(
-              `Expansion error: ${err instanceof Error ? err.message : String(err)}`,
-            );
+            endThinking();
+            if (expandHeaderShown) console.log();
+            if (expandAbort.signal.aborted) {
+              log.warn("Research expansion cancelled.");
+            } else {
+              log.error(
+                `Expansion error: ${err instanceof Error ? err.message : String(err)}`,
+              );
+            }
+          } finally {
+            disposeExpandInterrupt();
           }
           continue;
         }
@@ -442,53 +666,41 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
                 `(${stats.skippedDocuments} skipped, ${stats.errors} errors, ` +
                 `${(stats.durationMs / 1000).toFixed(1)}s)`,
             );
-            // Reset cached store so next search uses updated index
+            // Reset cached store and search results so next search uses updated index
             resetStoreCache();
+            currentConfig.toolCache?.clear();
           } catch (err: unknown) {
             log.error(
               `Index build failed: ${err instanceof Error ? err.message : String(err)}`,
             );
+            if (err instanceof BridgeError) log.info(err.hint);
           }
           continue;
         }
 
-        // ─── /compact: Trim conversation history to save context ───
+        // ─── /compact: Summarize older history to save context ───
         case "/compact": {
-          const msgs = history._messages as Array<{ role?: string; content?: unknown }>;
-          const oldLen = msgs.length;
-
-          // Find safe cut points: indices where a real user message starts a new exchange.
-          // A "safe" cut point ensures we never split a tool_use/tool_result pair.
-          // For Anthropic: real user messages have string content (not array tool_results).
-          // For OpenAI: real user messages have role "user" (tool results have role "tool").
-          // For Gemini: real user messages have text parts (tool results have functionResponse parts).
-          const safeCutPoints: number[] = [];
-          for (let i = 0; i < msgs.length; i++) {
-            const m = msgs[i];
-            if (m.role !== "user") continue;
-            // Anthropic: role "user" is shared with tool_results (content is array)
-            if (provider.name === "anthropic" && typeof m.content !== "string") continue;
-            // Gemini: role "user" is shared with functionResponse (parts contain functionResponse)
-            if (provider.name === "gemini" && Array.isArray(m.content)) {
-              const parts = m.content as Array<Record<string, unknown>>;
-              if (parts.some((p) => "functionResponse" in p)) continue;
+          const model =
+            currentConfig.model || getDefaultModel(currentConfig.providerName);
+          startSpinner("Summarizing earlier conversation...");
+          try {
+            const res = await compactHistory(history, provider, model);
+            stopSpinner();
+            if (!res.compacted) {
+              log.info("History is already compact.");
+              continue;
             }
-            // OpenAI: tool results have role "tool", not "user", so no filtering needed
-            safeCutPoints.push(i);
-          }
-
-          if (safeCutPoints.length <= 2) {
-            log.info("History is already compact.");
-            continue;
+            addUsage(sessionUsage, res.usage);
+            log.success(
+              `Compacted history: ${res.oldLength} → ${res.newLength} messages ` +
+                `(${res.summarizedMessages} older messages summarized).`,
+            );
+          } catch (err: unknown) {
+            stopSpinner();
+            log.error(
+              `Compaction failed: ${err instanceof Error ? err.message : String(err)}`,
+            );
           }
-
-          // Keep from the 2nd-to-last real user message onwards (≈ 2 exchanges)
-          const keepFrom = safeCutPoints[safeCutPoints.length - 2];
-          history._messages = msgs.slice(keepFrom) as unknown[];
-          const newLen = (history._messages as unknown[]).length;
-          log.success(
-            `Compacted history: ${oldLen} → ${newLen} messages. Older context trimmed.`,
-          );
           continue;
         }
 
@@ -496,7 +708,7 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
         case "/usage": {
           const model =
             currentConfig.model || getDefaultModel(currentConfig.providerName);
-          const ctxLimit = getContextLimit(model);
+          const ctxLimit = getContextLimit(model, currentConfig.providerName);
           log.info("Session token usage:");
           console.log(
             `    Input:   ${chalk.bold(sessionUsage.inputTokens.toLocaleString())} tokens`,
@@ -504,6 +716,17 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
           console.log(
             `    Output:  ${chalk.bold(sessionUsage.outputTokens.toLocaleString())} tokens`,
           );
+          if (sessionUsage.thinkingTokens) {
+            console.log(
+              `    Thinking: ${chalk.bold(sessionUsage.thinkingTokens.toLocaleString())} tokens (included in output)`,
+            );
+          }
+          if (sessionUsage.cacheReadTokens || sessionUsage.cacheWriteTokens) {
+            console.log(
+              `    Cached:  ${chalk.bold((sessionUsage.cacheReadTokens ?? 0).toLocaleString())} read · ` +
+                `${chalk.bold((sessionUsage.cacheWriteTokens ?? 0).toLocaleString())} written (included in input)`,
+            );
+          }
           console.log(
             `    Total:   ${chalk.bold((sessionUsage.inputTokens + sessionUsage.outputTokens).toLocaleString())} tokens`,
           );
@@ -514,6 +737,16 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
           if (cost > 0) {
             console.log(`    Est. cost: ${chalk.bold("$" + cost.toFixed(4))}`);
           }
+          if (currentConfig.turnBudget) {
+            console.log(
+              `    Turn budget:    ${formatBudget(currentConfig.turnBudget, model)}`,
+            );
+          }
+          if (currentConfig.sessionBudget) {
+            console.log(
+              `    Session budget: ${formatBudget(currentConfig.sessionBudget, model, sessionUsage)}`,
+            );
+          }
           continue;
         }
 
@@ -559,45 +792,82 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
     }
 
     // ─── Send to Agent ───
+    if (sessionBudgetExhausted(currentConfig, sessionUsage)) continue;
+
+    // Remember the history before this turn so Ctrl-C can roll back to it
+    const turnStart = snapshotHistory(history);
     provider.pushUserMessage(history, input);
 
+    const turnAbort = new AbortController();
+    const disposeInterrupt = onInterrupt(rl, () => turnAbort.abort());
+
     startSpinner("Thinking...");
     let toolIndex = 0;
     let headerShown = false;
+    let running = 0;
 
     try {
-      const result = await agentLoop(history, provider, currentConfig, {
-        onToken: (token) => {
-          stopSpinner();
-          if (!headerShown) {
-            log.blank();
-            log.divider();
-            process.stdout.write(chalk.bold("\nAgent > "));
-            headerShown = true;
-          }
-          process.stdout.write(token);
-        },
-        onToolCall: (e) => {
-          stopSpinner();
-          if (headerShown) {
-            console.log(); // newline after any streamed text
-            headerShown = false;
-          }
-          toolIndex++;
-          const detail = formatToolInput(e.name, e.input);
-          log.tool(`[${toolIndex}] ${e.name}`, detail);
-          startSpinner(`Running ${e.name}...`);
-        },
-        onToolResult: (e) => {
-          stopSpinner();
-          const summary = formatToolResult(e.name, e.result);
-          log.toolDone(e.name, e.durationMs);
-          console.log(chalk.gray("     " + summary));
-          startSpinner("Thinking...");
+      const result = await agentLoop(
+        history,
+        provider,
+        currentConfig,
+        {
+          onThinking: showThinking,
+          onToken: (token) => {
+            stopSpinner();
+            endThinking();
+            if (!headerShown) {
+              log.blank();
+              log.divider();
+              process.stdout.write(chalk.bold("\nAgent > "));
+              headerShown = true;
+            }
+            process.stdout.write(token);
+          },
+          onToolCall: (e) => {
+            stopSpinner();
+            endThinking();
+            if (headerShown) {
+              console.log(); // newline after any streamed text
+              headerShown = false;
+            }
+            toolIndex++;
+            const detail = formatToolInput(e.name, e.input);
+            log.tool(`[${toolIndex}] ${e.name}`, detail);
+            running++;
+            startSpinner(runningText(running, e.name));
+          },
+          onToolResult: (e) => {
+            stopSpinner();
+            const summary = formatToolResult(e.name, e.result);
+            log.toolDone(e.name, e.durationMs, e.cached);
+            console.log(chalk.gray("     " + summary));
+            running--;
+            startSpinner(running > 0 ? runningText(running) : "Thinking...");
+          },
+          onLoopDetected: (e) => {
+            stopSpinner();
+            reportLoop(e);
+            startSpinner(running > 0 ? runningText(running) : "Thinking...");
+          },
+          onFailover: (e) => {
+            stopSpinner();
+            reportFailover(e);
+            startSpinner(running > 0 ? runningText(running) : "Thinking...");
+          },
+          onCompacted: (res) => {
+            stopSpinner();
+            reportOverflowCompaction(res);
+            startSpinner(running > 0 ? runningText(running) : "Thinking...");
+          },
+          onText: () => {},
+          onUsage: (usage) => addUsage(sessionUsage, usage),
         },
-        onText: () => {},
-      });
+        undefined,
+        turnAbort.signal,
+      );
       stopSpinner();
+      endThinking();
 
       // Display final response
       if (headerShown) {
@@ -610,6 +880,7 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
         console.log(chalk.bold("\nAgent > ") + result.text);
         log.divider();
       }
+      warnIfForced(result);
 
       // Save last response (for /export)
       lastResponse = result.text;
@@ -617,32 +888,67 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
       // Add assistant response to history
       provider.pushAssistantText(history, result.text);
 
-      // Accumulate session usage
-      sessionUsage.inputTokens += result.usage.inputTokens;
-      sessionUsage.outputTokens += result.usage.outputTokens;
-
       // Display per-turn stats with usage
       const model = currentConfig.model || getDefaultModel(currentConfig.providerName);
-      const costStr = formatCost(model, result.usage);
+      const answered = answeredBy(result, currentConfig);
+      const costStr = formatCost(answered.model, result.usage);
       log.info(
         chalk.gray(
-          `[${currentConfig.providerName}/${model} · ${result.iterations} iter · ${result.toolCalls.length} tools` +
-            ` · ↑${result.usage.inputTokens.toLocaleString()} ↓${result.usage.outputTokens.toLocaleString()} tokens${costStr}` +
+          `[${answered.providerName}/${answered.model} · ${result.iterations} iter · ${result.toolCalls.length} tools` +
+            ` · ${formatTokens(result.usage)} tokens${costStr}` +
             ` · session: ${(sessionUsage.inputTokens + sessionUsage.outputTokens).toLocaleString()}]`,
         ),
       );
 
-      // Context window warning
-      const ctxLimit = getContextLimit(model);
-      if (result.usage.inputTokens > ctxLimit * 0.75) {
-        const pct = Math.round((result.usage.inputTokens / ctxLimit) * 100);
+      // Context window management: auto-compact past the threshold, otherwise warn
+      const ctxLimit = getContextLimit(model, currentConfig.providerName);
+      const ctxRatio = result.contextTokens / ctxLimit;
+      const pct = Math.round(ctxRatio * 100);
+      const threshold = currentConfig.compactThreshold ?? 0.75;
+      let autoCompacted = false;
+      if (threshold > 0 && ctxRatio >= threshold) {
+        startSpinner(`Context usage ${pct}% — summarizing earlier conversation...`);
+        try {
+          // Keep only the latest exchange verbatim: context is already tight
+          const res = await compactHistory(history, provider, model, {
+            keepTurns: 1,
+            signal: turnAbort.signal,
+          });
+          stopSpinner();
+          if (res.compacted) {
+            autoCompacted = true;
+            addUsage(sessionUsage, res.usage);
+            log.info(
+              `Context usage reached ${pct}%; auto-compacted history ` +
+                `${res.oldLength} → ${res.newLength} messages.`,
+            );
+          }
+        } catch (err: unknown) {
+          stopSpinner();
+          if (!turnAbort.signal.aborted) {
+            log.warn(
+              `Auto-compaction failed: ${err instanceof Error ? err.message : String(err)}`,
+            );
+          }
+        }
+      }
+      if (!autoCompacted && ctxRatio > 0.75) {
         log.warn(
           `Context usage: ${pct}% of ${ctxLimit.toLocaleString()} limit. Use /compact or /clear to free space.`,
         );
       }
     } catch (err: unknown) {
       stopSpinner();
+      endThinking();
       if (headerShown) console.log(); // newline if we were streaming
+
+      if (turnAbort.signal.aborted) {
+        // Drop the cancelled user message and any partial tool exchange
+        rollbackHistory(history, turnStart);
+        log.warn("Turn cancelled. Conversation restored to before your last message.");
+        continue;
+      }
+
       const e = err instanceof Error ? err.message : String(err);
       log.error(`Agent error: ${e}`);
 
@@ -652,6 +958,8 @@ async function interactiveMode(config: AgentConfig): Promise<void> {
         history,
         "[Error occurred during processing. Please try again.]",
       );
+    } finally {
+      disposeInterrupt();
     }
   }
 }
@@ -677,11 +985,17 @@ Usage:
   dt-agent --help            Show help
 
 Environment Variables:
-  LLM_PROVIDER               anthropic | openai | gemini (default: anthropic)
+  LLM_PROVIDER               anthropic | openai | gemini | local | mock (default: anthropic)
   LLM_MODEL                  Specify model (leave empty for provider default)
+  LLM_FALLBACK               Failover chain, e.g. "openai,gemini:gemini-2.5-pro"
   ANTHROPIC_API_KEY           Anthropic API Key
   OPENAI_API_KEY              OpenAI API Key
+  OPENAI_RESPONSES_STORE      true = keep Responses API conversations server-side
   GOOGLE_API_KEY              Google Gemini API Key
+  LOCAL_BASE_URL              OpenAI-compatible local server (default: Ollama at localhost:11434)
+  MOCK_SCRIPT                 JSON script of replies for the offline mock provider
+  DT_BACKEND                  jxa (DEVONthink via osascript, default) | fake (fixture directory)
+  DT_FIXTURES                 Fixture directory for DT_BACKEND=fake, e.g. examples/fixtures
   BRAVE_API_KEY               Brave Search Key (free 2000 req/month, recommended)
   TAVILY_API_KEY              Tavily Search Key (optional, higher quality, paid)
   JINA_API_KEY                Jina API Key (optional, search + page scraping)
@@ -690,7 +1004,7 @@ Interactive Commands:
   /model <provider> [model]  Switch LLM Provider and model
   /tools                     Show available tools
   /usage                     Show session token usage & estimated cost
-  /compact                   Trim conversation history to save context
+  /compact                   Summarize older history to save context
   /index [database]          Build/update semantic search index
   /index --force             Force full index rebuild
   /index --status            Show index status
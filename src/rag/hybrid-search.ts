@@ -38,6 +38,8 @@ export interface HybridSearchOptions {
   enableSemantic?: boolean;
   /** Enable See Also path (default true) */
   enableRelated?: boolean;
+  /** Cancels in-flight DEVONthink calls (e.g. Ctrl-C during an agent turn) */
+  signal?: AbortSignal;
 }
 
 export interface HybridSearchResponse {
@@ -101,22 +103,20 @@ export async function hybridSearch(
   options: HybridSearchOptions = {},
 ): Promise<HybridSearchResponse> {
   const topK = options.topK || 10;
+  const signal = options.signal;
   const results = new Map<string, HybridResult>();
   const searchPaths: string[] = [];
 
   // ═══ Path 1: DEVONthink keyword search ═══
   try {
-    const keywordResults = (await dt.searchRecords(
+    const { results: keywordResults } = await dt.searchRecords(
       query,
       options.database,
       15,
-    )) as Array<{
-      uuid: string;
-      name: string;
-      score: number;
-      recordType: string;
-      database: string;
-    }>;
+      undefined,
+      undefined,
+      signal,
+    );
 
     if (Array.isArray(keywordResults)) {
       searchPaths.push("keyword");
@@ -134,6 +134,7 @@ export async function hybridSearch(
   } catch {
     // Keyword search failed — continue with other paths
   }
+  signal?.throwIfAborted();
 
   // ═══ Path 2: Semantic search (if index available) ═══
   const semanticEnabled = options.enableSemantic !== false;
@@ -173,6 +174,7 @@ export async function hybridSearch(
       // Semantic search failed — continue
     }
   }
+  signal?.throwIfAborted();
 
   // ═══ Path 3: DEVONthink "See Also" (multi-seed) ═══
   const relatedEnabled = options.enableRelated !== false;
@@ -186,7 +188,7 @@ export async function hybridSearch(
 
     for (const seed of seeds) {
       try {
-        const related = (await dt.getRelatedRecords(seed.uuid, 8)) as Array<{
+        const related = (await dt.getRelatedRecords(seed.uuid, 8, signal)) as Array<{
           uuid: string;
           name: string;
           score: number;
@@ -221,6 +223,7 @@ export async function hybridSearch(
       } catch {
         // Related search failed for this seed — try next
       }
+      signal?.throwIfAborted();
     }
     if (relatedFound) searchPaths.push("related");
   }
@@ -14,7 +14,8 @@ export function formatToolInput(name: string, input: Record<string, unknown>): s
     // DEVONthink
     case "search_records": {
       const db = input.database ? ` in "${input.database}"` : "";
-      return `"${input.query}"${db}`;
+      const filters = formatSearchFilters(input);
+      return `"${input.query ?? ""}"${db}${filters ? ` [${filters}]` : ""}${formatPageInput(input)}`;
     }
     case "get_record_content":
       return truncateUuid(input.uuid as string);
@@ -22,12 +23,18 @@ export function formatToolInput(name: string, input: Record<string, unknown>): s
       return truncateUuid(input.uuid as string);
     case "list_databases":
       return "";
-    case "list_group_contents":
-      return input.uuid ? truncateUuid(input.uuid as string) : "root";
+    case "list_group_contents": {
+      const group = input.uuid ? truncateUuid(input.uuid as string) : "root";
+      return `${group}${formatPageInput(input)}`;
+    }
     case "get_related_records":
       return truncateUuid(input.uuid as string);
     case "classify_record":
       return truncateUuid(input.uuid as string);
+    case "view_record_image": {
+      const page = input.page ? ` p.${input.page}` : "";
+      return `${truncateUuid(input.uuid as string)}${page}`;
+    }
     // Hybrid / Semantic Search
     case "hybrid_search": {
       const hDb = input.database ? ` in "${input.database}"` : "";
@@ -40,6 +47,9 @@ export function formatToolInput(name: string, input: Record<string, unknown>): s
       return `"${input.query}"`;
     case "fetch_url":
       return truncateUrl(input.url as string);
+    // Delegation
+    case "delegate_research":
+      return `"${input.question}"`;
     default:
       return JSON.stringify(input).slice(0, 60);
   }
@@ -52,14 +62,19 @@ export function formatToolResult(name: string, result: unknown): string {
   if (!result || typeof result !== "object") return String(result);
   const r = result as Record<string, unknown>;
 
-  if (r.error) return chalk.red(`Error: ${r.error}`);
+  if (r.error) {
+    const hint = r.hint ? chalk.gray(` — ${r.hint}`) : "";
+    return chalk.red(`Error: ${r.error}`) + hint;
+  }
 
   switch (name) {
     // DEVONthink
     case "search_records": {
-      const arr = result as Array<Record<string, unknown>>;
-      if (Array.isArray(arr)) {
-        return `Found ${arr.length} results`;
+      const sr = r as { results?: unknown[]; totalCount?: number; offset?: number };
+      if (Array.isArray(sr.results)) {
+        return (
+          formatPageRange(sr, sr.results.length) ?? `Found ${sr.results.length} results`
+        );
       }
       return "Search complete";
     }
@@ -86,8 +101,14 @@ export function formatToolResult(name: string, result: unknown): string {
       return "Listed";
     }
     case "list_group_contents": {
-      const g = r as { parentName?: string; totalChildren?: number };
-      return `${g.parentName}: ${g.totalChildren} items`;
+      const g = r as {
+        parentName?: string;
+        children?: unknown[];
+        totalCount?: number;
+        offset?: number;
+      };
+      const count = g.children?.length ?? 0;
+      return `${g.parentName}: ${formatPageRange(g, count) ?? `${count} items`}`;
     }
     case "get_related_records": {
       const arr = result as Array<Record<string, unknown>>;
@@ -101,6 +122,10 @@ export function formatToolResult(name: string, result: unknown): string {
       }
       return "No suggestion";
     }
+    case "view_record_image": {
+      const page = r.pageCount ? ` — page ${r.page}/${r.pageCount}` : "";
+      return `${r.name} [${r.width}×${r.height}]${page}`;
+    }
     // Hybrid / Semantic Search
     case "hybrid_search": {
       const hr = r as {
@@ -142,11 +167,57 @@ export function formatToolResult(name: string, result: unknown): string {
       const trunc = r.truncated ? " (truncated)" : "";
       return `${r.title || r.url}${trunc}`;
     }
+    // Delegation
+    case "delegate_research": {
+      const partial = r.incomplete ? " (incomplete)" : "";
+      return `Report ready — ${r.toolCalls} tool calls, ${r.iterations} iter${partial}`;
+    }
     default:
       return JSON.stringify(result).slice(0, 80);
   }
 }
 
+/** search_records filters in query-prefix shorthand, e.g. "kind:pdf, tags:a+b, modified≥2026-01-01" */
+function formatSearchFilters(input: Record<string, unknown>): string {
+  const list = (v: unknown) => (Array.isArray(v) ? v.join(",") : String(v));
+  const parts: string[] = [];
+  if (input.kinds) parts.push(`kind:${list(input.kinds)}`);
+  if (input.tags) {
+    const sep = input.tag_match === "any" ? "|" : "+";
+    parts.push(`tags:${Array.isArray(input.tags) ? input.tags.join(sep) : input.tags}`);
+  }
+  if (input.created_after) parts.push(`created≥${input.created_after}`);
+  if (input.created_before) parts.push(`created<${input.created_before}`);
+  if (input.modified_after) parts.push(`modified≥${input.modified_after}`);
+  if (input.modified_before) parts.push(`modified<${input.modified_before}`);
+  if (input.group_uuid) parts.push(`in ${truncateUuid(input.group_uuid as string)}`);
+  if (input.flagged !== undefined) parts.push(input.flagged ? "flagged" : "unflagged");
+  if (input.unread !== undefined) parts.push(input.unread ? "unread" : "read");
+  if (input.min_rating !== undefined) parts.push(`rating≥${input.min_rating}`);
+  return parts.join(", ");
+}
+
+/** Paging arguments, e.g. " (next page)" or " (from 30, by modified)" */
+function formatPageInput(input: Record<string, unknown>): string {
+  const parts: string[] = [];
+  if (input.cursor) parts.push("next page");
+  else if (input.offset) parts.push(`from ${input.offset}`);
+  if (input.sort && !input.cursor) parts.push(`by ${input.sort}`);
+  return parts.length > 0 ? ` (${parts.join(", ")})` : "";
+}
+
+/** "items 31–60 of 412" when a paged result is not the whole list, else null */
+function formatPageRange(
+  page: { totalCount?: number; offset?: number },
+  count: number,
+): string | null {
+  const total = page.totalCount ?? count;
+  const offset = page.offset ?? 0;
+  if (offset === 0 && count >= total) return null;
+  if (count === 0) return `no items after ${offset} of ${total}`;
+  return `items ${offset + 1}–${offset + count} of ${total}`;
+}
+
 function truncateUuid(uuid: string): string {
   if (!uuid) return "??";
   return uuid.length > 8 ? uuid.slice(0, 8) + "…" : uuid;
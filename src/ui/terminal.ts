@@ -19,8 +19,12 @@ export const log = {
         chalk.magenta.bold(name) +
         (detail ? chalk.gray(" " + detail) : ""),
     ),
-  toolDone: (name: string, ms: number) =>
-    console.log(chalk.green("  ✓ ") + chalk.green(name) + chalk.gray(` (${ms}ms)`)),
+  toolDone: (name: string, ms: number, cached?: boolean) =>
+    console.log(
+      chalk.green("  ✓ ") +
+        chalk.green(name) +
+        chalk.gray(cached ? " (cached)" : ` (${ms}ms)`),
+    ),
   divider: () => console.log(chalk.gray("─".repeat(60))),
   blank: () => console.log(),
 };
@@ -44,6 +48,28 @@ export function stopSpinner(): void {
   }
 }
 
+// ─── Reasoning Display ───────────────────────────────────
+
+let thinkingOpen = false;
+
+/** Print model reasoning dimmed; consecutive deltas continue the same block */
+export function showThinking(text: string): void {
+  stopSpinner();
+  if (!thinkingOpen) {
+    process.stdout.write(chalk.gray("  ✻ "));
+    thinkingOpen = true;
+  }
+  process.stdout.write(chalk.dim.italic(text.replace(/\n/g, "\n    ")));
+}
+
+/** Close an open reasoning block before printing anything else */
+export function endThinking(): void {
+  if (thinkingOpen) {
+    process.stdout.write("\n");
+    thinkingOpen = false;
+  }
+}
+
 // ─── readline Input ──────────────────────────────────────
 
 export function createPrompt(): readline.Interface {
@@ -59,6 +85,21 @@ export function askQuestion(rl: readline.Interface, prompt: string): Promise<str
   });
 }
 
+/**
+ * Route Ctrl-C to `handler` until the returned dispose function is called.
+ * Ctrl-C arrives either as a readline keypress or, while an ora spinner is
+ * active, as a process SIGINT emitted by its stdin handler — listen to both
+ * so neither path falls through to the default "exit process" behavior.
+ */
+export function onInterrupt(rl: readline.Interface, handler: () => void): () => void {
+  rl.on("SIGINT", handler);
+  process.on("SIGINT", handler);
+  return () => {
+    rl.off("SIGINT", handler);
+    process.off("SIGINT", handler);
+  };
+}
+
 // ─── Welcome Banner ──────────────────────────────────────
 
 export function printBanner(version?: string): void {
@@ -86,13 +127,18 @@ export function printStatus(opts: { provider: string; model: string }): void {
 export function printHelp(): void {
   console.log(chalk.bold("\n  Basic Commands:"));
   console.log("    /help                        Show this help");
-  console.log("    /model <provider> [model]     Switch LLM (anthropic/openai/gemini)");
+  console.log(
+    "    /model <provider> [model]     Switch LLM (anthropic/openai/gemini/local/mock)",
+  );
   console.log("    /tools                       Show available tools");
   console.log("    /usage                       Show session token usage & cost");
-  console.log("    /compact                     Trim history to save context window");
+  console.log("    /compact                     Summarize older history to save context");
   console.log("    /clear                       Clear conversation history");
   console.log("    /version                     Show version & check for updates");
   console.log("    /exit                        Exit");
+  console.log(
+    "    Ctrl-C (while running)       Cancel the current turn, keep the session",
+  );
   console.log(chalk.bold("\n  Semantic Index:"));
   console.log("    /index [database]            Build/update semantic search index");
   console.log("    /index --force               Force full rebuild");
@@ -106,6 +152,7 @@ export function printHelp(): void {
   console.log("    /model anthropic              Claude Sonnet (default)");
   console.log("    /model openai gpt-4o          GPT-4o");
   console.log("    /model gemini                 Gemini Flash");
+  console.log("    /model local llama3.1         Local model (Ollama, LM Studio, ...)");
   console.log(chalk.bold("\n  Usage Examples:"));
   console.log('    Search all documents about "machine learning" in the database');
   console.log("    /index                       Build semantic index first");
@@ -6,6 +6,8 @@
  * falls back to direct fetch + HTML text extraction.
  */
 
+import { requestSignal } from "./search.js";
+
 export interface FetchedPage {
   url: string;
   title: string;
@@ -23,12 +25,13 @@ export interface FetchedPage {
 export async function fetchUrl(
   url: string,
   maxLength: number = 8000,
+  signal?: AbortSignal,
 ): Promise<FetchedPage> {
   const jinaKey = process.env.JINA_API_KEY;
 
   // If no Jina key, use fallback directly
   if (!jinaKey) {
-    return fetchDirectFallback(url, maxLength);
+    return fetchDirectFallback(url, maxLength, signal);
   }
 
   const jinaUrl = `https://r.jina.ai/${url}`;
@@ -40,12 +43,12 @@ export async function fetchUrl(
       "X-Retain-Images": "none",
       "X-Return-Format": "text",
     },
-    signal: AbortSignal.timeout(30_000),
+    signal: requestSignal(30_000, signal),
   });
 
   if (!response.ok) {
     // If Jina fails, fall back to direct fetch + basic text extraction
-    return fetchDirectFallback(url, maxLength);
+    return fetchDirectFallback(url, maxLength, signal);
   }
 
   const text = await response.text();
@@ -71,13 +74,17 @@ export async function fetchUrl(
 /**
  * Direct fetch fallback: fetches HTML and performs basic text extraction.
  */
-async function fetchDirectFallback(url: string, maxLength: number): Promise<FetchedPage> {
+async function fetchDirectFallback(
+  url: string,
+  maxLength: number,
+  signal?: AbortSignal,
+): Promise<FetchedPage> {
   const response = await fetch(url, {
     headers: {
       "User-Agent": "Mozilla/5.0 (Macintosh; Apple M2 Pro) DTAgent/0.1",
       Accept: "text/html,text/plain,application/json",
     },
-    signal: AbortSignal.timeout(15_000),
+    signal: requestSignal(15_000, signal),
   });
 
   if (!response.ok) {
@@ -28,18 +28,19 @@ export interface WebSearchResponse {
 export async function webSearch(
   query: string,
   maxResults: number = 5,
+  signal?: AbortSignal,
 ): Promise<WebSearchResponse> {
   const tavilyKey = process.env.TAVILY_API_KEY;
   if (tavilyKey) {
-    return searchViaTavily(query, maxResults, tavilyKey);
+    return searchViaTavily(query, maxResults, tavilyKey, signal);
   }
   const braveKey = process.env.BRAVE_API_KEY;
   if (braveKey) {
-    return searchViaBrave(query, maxResults, braveKey);
+    return searchViaBrave(query, maxResults, braveKey, signal);
   }
   const jinaKey = process.env.JINA_API_KEY;
   if (jinaKey) {
-    return searchViaJina(query, maxResults, jinaKey);
+    return searchViaJina(query, maxResults, jinaKey, signal);
   }
   return {
     query,
@@ -50,12 +51,22 @@ export async function webSearch(
   };
 }
 
+/**
+ * Combine a request timeout with an optional caller abort signal
+ * (e.g. Ctrl-C cancelling the current agent turn).
+ */
+export function requestSignal(timeoutMs: number, signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(timeoutMs);
+  return signal ? AbortSignal.any([timeout, signal]) : timeout;
+}
+
 // ─── Tavily ──────────────────────────────────────────────
 
 async function searchViaTavily(
   query: string,
   maxResults: number,
   apiKey: string,
+  signal?: AbortSignal,
 ): Promise<WebSearchResponse> {
   const response = await fetch("https://api.tavily.com/search", {
     method: "POST",
@@ -67,7 +78,7 @@ async function searchViaTavily(
       include_answer: false,
       search_depth: "basic",
     }),
-    signal: AbortSignal.timeout(15_000),
+    signal: requestSignal(15_000, signal),
   });
 
   if (!response.ok) {
@@ -101,6 +112,7 @@ async function searchViaBrave(
   query: string,
   maxResults: number,
   apiKey: string,
+  signal?: AbortSignal,
 ): Promise<WebSearchResponse> {
   const params = new URLSearchParams({
     q: query,
@@ -115,7 +127,7 @@ async function searchViaBrave(
         "Accept-Encoding": "gzip",
         "X-Subscription-Token": apiKey,
       },
-      signal: AbortSignal.timeout(15_000),
+      signal: requestSignal(15_000, signal),
     },
   );
 
@@ -154,6 +166,7 @@ async function searchViaJina(
   query: string,
   maxResults: number,
   apiKey: string,
+  signal?: AbortSignal,
 ): Promise<WebSearchResponse> {
   const encodedQuery = encodeURIComponent(query);
   const response = await fetch(`https://s.jina.ai/${encodedQuery}`, {
@@ -162,7 +175,7 @@ async function searchViaJina(
       Authorization: `Bearer ${apiKey}`,
       "X-Retain-Images": "none",
     },
-    signal: AbortSignal.timeout(15_000),
+    signal: requestSignal(15_000, signal),
   });
 
   if (!response.ok) {
@@ -0,0 +1,322 @@
+/**
+ * agent-loop.test.ts — Scripted agent loop runs against the mock provider
+ *
+ * DEVONthink calls go to the fixture backend (examples/fixtures), so these run
+ * off macOS without network or API keys.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { agentLoop, type AgentConfig } from "../src/agent/loop.js";
+import {
+  addUsage,
+  getProvider,
+  MockProvider,
+  type MockScript,
+  type TokenUsage,
+} from "../src/agent/providers.js";
+import { setBackend } from "../src/bridge/backend.js";
+import { FakeBackend } from "../src/bridge/fake-backend.js";
+
+const config: AgentConfig = {
+  providerName: "mock",
+  model: "mock",
+  maxIterations: 5,
+  repeatCallThreshold: 0,
+};
+
+function run(
+  script: MockScript,
+  signal?: AbortSignal,
+  overrides: Partial<AgentConfig> = {},
+) {
+  const provider = new MockProvider(script);
+  const history = provider.createHistory();
+  provider.pushUserMessage(history, "Which databases do I have?");
+  const tokens: string[] = [];
+  const result = agentLoop(
+    history,
+    provider,
+    { ...config, ...overrides },
+    { onToken: (t) => tokens.push(t) },
+    undefined,
+    signal,
+  );
+  return { provider, history, tokens, result };
+}
+
+describe("agentLoop with the mock provider", () => {
+  // Fallback providers come from getProvider("mock"), which reads MOCK_SCRIPT
+  const scriptDir = mkdtempSync(join(tmpdir(), "dt-agent-mock-"));
+  before(() => setBackend(new FakeBackend("examples/fixtures")));
+  after(() => rmSync(scriptDir, { recursive: true, force: true }));
+
+  it("runs a tool call, retries an overloaded reply, then answers", async () => {
+    const { provider, history, tokens, result } = run({
+      responses: [
+        {
+          text: "Let me look.",
+          toolCalls: [{ id: "tc-1", name: "list_databases" }],
+          usage: { inputTokens: 100, outputTokens: 20 },
+        },
+        {
+          error: {
+            kind: "overloaded",
+            message: "529 Overloaded (scripted)",
+            status: 529,
+            retryAfterMs: 10,
+          },
+        },
+        {
+          text: "You have Inbox and Research.",
+          usage: { inputTokens: 180, outputTokens: 12 },
+        },
+      ],
+    });
+    const { text, toolCalls, iterations, usage } = await result;
+
+    assert.equal(text, "You have Inbox and Research.");
+    assert.equal(tokens.join(""), "Let me look.You have Inbox and Research.");
+    assert.deepEqual(
+      toolCalls.map((tc) => tc.name),
+      ["list_databases"],
+    );
+    assert.equal(iterations, 2);
+    // The failed attempt spent nothing; only the two replies count
+    assert.deepEqual(usage, { inputTokens: 280, outputTokens: 32 });
+
+    // Three requests: the tool call, the overloaded attempt and its retry
+    assert.equal(provider.requests.length, 3);
+    assert.ok(provider.requests[0].toolNames.includes("list_databases"));
+    const [, failed, retried] = provider.requests;
+    assert.deepEqual(failed.messages, retried.messages);
+    const toolMessage = retried.messages.at(-1);
+    assert.equal(toolMessage?.role, "tool");
+    if (toolMessage?.role === "tool") {
+      assert.equal(toolMessage.results[0].toolCallId, "tc-1");
+      const databases = JSON.parse(toolMessage.results[0].output) as Array<{
+        name: string;
+      }>;
+      assert.deepEqual(
+        databases.map((d) => d.name),
+        ["Inbox", "Research"],
+      );
+    }
+
+    // user → assistant tool use → tool results (the caller records the final answer)
+    assert.deepEqual(
+      history._messages.map((m) => m.role),
+      ["user", "assistant", "tool"],
+    );
+  });
+
+  it("stops a slow stream as soon as the turn is cancelled", async () => {
+    const abort = new AbortController();
+    const { tokens, result } = run(
+      {
+        tokenDelayMs: 10_000,
+        responses: [{ text: "a very slow answer" }],
+      },
+      abort.signal,
+    );
+    const started = Date.now();
+    setTimeout(() => abort.abort(new Error("cancelled")), 20);
+
+    await assert.rejects(result, /cancelled/);
+    assert.ok(Date.now() - started < 1_000, "did not wait for the token delay");
+    assert.deepEqual(tokens, []);
+  });
+
+  it("counts a cancelled turn's usage in the session", async () => {
+    const sessionUsage: TokenUsage = { inputTokens: 1000, outputTokens: 100 };
+    const abort = new AbortController();
+    const provider = new MockProvider({
+      responses: [
+        {
+          toolCalls: [{ id: "tc-1", name: "list_databases" }],
+          usage: { inputTokens: 100, outputTokens: 10 },
+        },
+        { text: "never reached" },
+      ],
+    });
+    const history = provider.createHistory();
+    provider.pushUserMessage(history, "Which databases do I have?");
+
+    await assert.rejects(
+      agentLoop(
+        history,
+        provider,
+        { ...config, sessionUsage },
+        {
+          onUsage: (usage) => addUsage(sessionUsage, usage),
+          onToolResult: () => abort.abort(new Error("cancelled")),
+        },
+        undefined,
+        abort.signal,
+      ),
+      /cancelled/,
+    );
+    assert.equal(provider.requests.length, 1);
+    assert.deepEqual(sessionUsage, { inputTokens: 1100, outputTokens: 110 });
+  });
+
+  it("counts a cancelled turn's usage, including its sub-agent, in the session", async () => {
+    const sessionUsage: TokenUsage = { inputTokens: 1000, outputTokens: 100 };
+    const provider = new MockProvider({
+      responses: [
+        {
+          toolCalls: [
+            {
+              id: "tc-1",
+              name: "delegate_research",
+              input: { question: "What is in Inbox?" },
+            },
+          ],
+          usage: { inputTokens: 100, outputTokens: 10 },
+        },
+        // The sub-agent's first call; the turn is cancelled right after it
+        {
+          toolCalls: [{ id: "tc-2", name: "list_databases" }],
+          usage: { inputTokens: 50, outputTokens: 5 },
+        },
+        { text: "never reached" },
+      ],
+    });
+    const history = provider.createHistory();
+    provider.pushUserMessage(history, "Research my Inbox");
+    const abort = new AbortController();
+    let calls = 0;
+
+    await assert.rejects(
+      agentLoop(
+        history,
+        provider,
+        { ...config, sessionUsage },
+        {
+          onUsage: (usage) => {
+            addUsage(sessionUsage, usage);
+            if (++calls === 2) abort.abort(new Error("cancelled"));
+          },
+        },
+        undefined,
+        abort.signal,
+      ),
+      /cancelled/,
+    );
+    assert.equal(provider.requests.length, 2);
+    assert.deepEqual(sessionUsage, { inputTokens: 1150, outputTokens: 115 });
+  });
+
+  it("fails over to the next provider when the first is out of quota", async () => {
+    const fallbackScript = join(scriptDir, "fallback.json");
+    writeFileSync(
+      fallbackScript,
+      JSON.stringify([
+        { text: "Inbox and Research.", usage: { inputTokens: 40, outputTokens: 4 } },
+      ]),
+    );
+    process.env.MOCK_SCRIPT = fallbackScript;
+
+    const { provider, history, result } = run(
+      {
+        responses: [
+          {
+            error: {
+              kind: "quota",
+              message: "You exceeded your current quota\nsee your plan",
+              status: 429,
+            },
+          },
+        ],
+      },
+      undefined,
+      { fallbacks: [{ providerName: "mock", model: "mock-fallback" }] },
+    );
+    const { text, failovers, usage } = await result;
+
+    assert.equal(text, "Inbox and Research.");
+    // Quota errors are not retried on the same provider
+    assert.equal(provider.requests.length, 1);
+    assert.deepEqual(failovers, [
+      {
+        fromProvider: "mock",
+        fromModel: "mock",
+        toProvider: "mock",
+        toModel: "mock-fallback",
+        reason: "You exceeded your current quota",
+      },
+    ]);
+    assert.deepEqual(usage, { inputTokens: 40, outputTokens: 4 });
+    // The fallback continues on the same history
+    const fallback = getProvider("mock") as MockProvider;
+    assert.equal(fallback.requests.length, 1);
+    assert.deepEqual(fallback.requests[0].messages, history._messages);
+  });
+
+  it("winds down with a tool-less final answer when the turn budget is nearly spent", async () => {
+    const { provider, result } = run(
+      {
+        responses: [
+          {
+            toolCalls: [{ id: "tc-1", name: "list_databases" }],
+            usage: { inputTokens: 500, outputTokens: 50 },
+          },
+          // Another round (about 2 × 950 in, 2 × 100 out) would pass the 3000-token cap
+          {
+            toolCalls: [{ id: "tc-2", name: "list_databases" }],
+            usage: { inputTokens: 900, outputTokens: 50 },
+          },
+          { text: "Inbox and Research.", usage: { inputTokens: 1000, outputTokens: 10 } },
+        ],
+      },
+      undefined,
+      { maxTokens: 100, turnBudget: { maxTokens: 3000 } },
+    );
+    const { text, toolCalls, forcedFinal, forcedReason, usage } = await result;
+
+    assert.equal(text, "Inbox and Research.");
+    assert.equal(forcedFinal, true);
+    assert.equal(forcedReason, "budget");
+    // Only the first round ran
+    assert.equal(toolCalls.length, 1);
+    assert.deepEqual(usage, { inputTokens: 2400, outputTokens: 110 });
+
+    const final = provider.requests[2];
+    assert.equal(final.options?.toolChoice, "none");
+    const skipped = final.messages.at(-1);
+    assert.equal(skipped?.role, "tool");
+    if (skipped?.role === "tool") {
+      assert.equal(skipped.results[0].toolCallId, "tc-2");
+      assert.match(skipped.results[0].output, /usage budget for this turn is spent/);
+    }
+  });
+
+  it("counts earlier turns against the session budget", async () => {
+    const sessionUsage: TokenUsage = { inputTokens: 3500, outputTokens: 0 };
+    const provider = new MockProvider({
+      responses: [
+        {
+          toolCalls: [{ id: "tc-1", name: "list_databases" }],
+          usage: { inputTokens: 300, outputTokens: 20 },
+        },
+        { text: "Stopping here.", usage: { inputTokens: 350, outputTokens: 5 } },
+      ],
+    });
+    const history = provider.createHistory();
+    provider.pushUserMessage(history, "Which databases do I have?");
+
+    const { forcedReason, toolCalls } = await agentLoop(
+      history,
+      provider,
+      { ...config, maxTokens: 100, sessionUsage, sessionBudget: { maxTokens: 4000 } },
+      { onUsage: (usage) => addUsage(sessionUsage, usage) },
+    );
+
+    assert.equal(forcedReason, "budget");
+    assert.deepEqual(toolCalls, []);
+    assert.deepEqual(sessionUsage, { inputTokens: 4150, outputTokens: 25 });
+  });
+});
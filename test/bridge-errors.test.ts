@@ -0,0 +1,78 @@
+/**
+ * bridge-errors.test.ts — Classifying DEVONthink bridge failures
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  BridgeError,
+  fromOsascriptError,
+  fromScriptResult,
+} from "../src/bridge/errors.js";
+import { toolErrorResult } from "../src/agent/tools.js";
+
+describe("fromOsascriptError", () => {
+  it("recognizes a missing Automation permission", () => {
+    const err = fromOsascriptError(
+      "execution error: Error: Error: Not authorized to send Apple events to DEVONthink. (-1743)",
+    );
+    assert.equal(err.kind, "automation_permission_denied");
+    assert.equal(err.errorNumber, -1743);
+    assert.equal(
+      err.message,
+      "Not allowed to control DEVONthink: Not authorized to send Apple events to DEVONthink. (-1743)",
+    );
+    assert.match(err.hint, /Privacy & Security → Automation/);
+  });
+
+  it("recognizes DEVONthink not running, by code or message", () => {
+    assert.equal(
+      fromOsascriptError("execution error: Error: Application isn't running. (-600)")
+        .kind,
+      "devonthink_not_running",
+    );
+    assert.equal(
+      fromOsascriptError("execution error: Error: Application can't be found.").kind,
+      "devonthink_not_running",
+    );
+  });
+
+  it("maps Apple event timeouts and falls back to script errors", () => {
+    assert.equal(
+      fromOsascriptError("execution error: Error: AppleEvent timed out. (-1712)").kind,
+      "timeout",
+    );
+    const err = fromOsascriptError(
+      "execution error: TypeError: undefined is not an object (evaluating 'r.name') (-2700)",
+    );
+    assert.equal(err.kind, "script_error");
+    assert.equal(err.errorNumber, -2700);
+    assert.match(err.message, /^JXA execution failed: TypeError/);
+  });
+});
+
+describe("fromScriptResult", () => {
+  it("classifies a script's own error results", () => {
+    assert.equal(fromScriptResult("Record not found").kind, "record_not_found");
+    assert.equal(fromScriptResult("Group not found: ABC").kind, "record_not_found");
+    assert.equal(
+      fromScriptResult("Database not found: Archive").kind,
+      "database_not_found",
+    );
+    assert.equal(fromScriptResult("Invalid page 0").kind, "script_error");
+  });
+});
+
+describe("toolErrorResult", () => {
+  it("gives the model a code and hint for bridge errors only", () => {
+    assert.deepEqual(
+      toolErrorResult(new BridgeError("database_not_found", "Database not found: X")),
+      {
+        error: "Database not found: X",
+        code: "database_not_found",
+        hint: "Use list_databases to get the exact names of the open databases.",
+      },
+    );
+    assert.deepEqual(toolErrorResult(new Error("boom")), { error: "boom" });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * budget.test.ts — Cost estimates from the bundled model catalog
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { estimateCost } from "../src/agent/budget.js";
+
+/** Compare dollar amounts without float noise */
+function assertUsd(actual: number, expected: number): void {
+  assert.ok(Math.abs(actual - expected) < 1e-9, `${actual} != ${expected}`);
+}
+
+describe("estimateCost", () => {
+  it("prices input and output per million tokens", () => {
+    // claude-sonnet-4: $3 in, $15 out
+    assertUsd(
+      estimateCost("claude-sonnet-4-20250514", {
+        inputTokens: 1_000_000,
+        outputTokens: 100_000,
+      }),
+      3 + 1.5,
+    );
+  });
+
+  it("prices cached prompt tokens at the cache read and write rates", () => {
+    // 600k cache reads at $0.30, 200k cache writes at $3.75, the other 200k at $3
+    assertUsd(
+      estimateCost("claude-sonnet-4-20250514", {
+        inputTokens: 1_000_000,
+        outputTokens: 0,
+        cacheReadTokens: 600_000,
+        cacheWriteTokens: 200_000,
+      }),
+      0.18 + 0.75 + 0.6,
+    );
+  });
+
+  it("falls back to the input price for missing cache rates", () => {
+    // gpt-4o: $2.50 in, $1.25 cache read, no cache write price
+    assertUsd(
+      estimateCost("gpt-4o", {
+        inputTokens: 400_000,
+        outputTokens: 0,
+        cacheReadTokens: 200_000,
+        cacheWriteTokens: 100_000,
+      }),
+      0.25 + 0.25 + 0.25,
+    );
+  });
+
+  it("uses a dated variant's base entry and is 0 for unpriced models", () => {
+    const usage = { inputTokens: 1_000_000, outputTokens: 0, cacheReadTokens: 1_000_000 };
+    assertUsd(estimateCost("gpt-4o-2024-08-06", usage), 1.25);
+    assert.equal(estimateCost("llama3.1", usage), 0);
+    assert.equal(estimateCost("not-in-catalog", usage), 0);
+  });
+});
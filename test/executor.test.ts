@@ -0,0 +1,99 @@
+/**
+ * executor.test.ts — The osascript worker pool
+ *
+ * A stand-in `osascript` on PATH speaks the worker protocol: it reports ready,
+ * then answers each request line. Scripts are commands for the stub:
+ * "sleep:<ms>:<value>" answers <value>@<pid> after <ms>, "fail:<message>"
+ * answers with an execution error.
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chmodSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { BridgeError } from "../src/bridge/errors.js";
+
+const STUB = `#!/usr/bin/env node
+const rl = require("node:readline").createInterface({ input: process.stdin });
+const send = (msg) => process.stdout.write(JSON.stringify(msg) + "\\n");
+send({ ready: true });
+rl.on("line", (line) => {
+  const { id, script } = JSON.parse(line);
+  const [cmd, a, b] = script.split(":");
+  if (cmd === "fail") return send({ id, error: "execution error: Error: " + a + " (-2700)" });
+  setTimeout(() => send({ id, result: b + "@" + process.pid }), Number(a));
+});
+rl.on("close", () => process.exit(0));
+`;
+
+const binDir = mkdtempSync(join(tmpdir(), "dt-agent-osascript-"));
+writeFileSync(join(binDir, "osascript"), STUB);
+chmodSync(join(binDir, "osascript"), 0o755);
+process.env.PATH = `${binDir}:${process.env.PATH}`;
+process.env.JXA_CONCURRENCY = "2";
+delete process.env.JXA_WORKER;
+// The worker is only used on macOS; the pool is created when executor.ts loads
+Object.defineProperty(process, "platform", { value: "darwin" });
+const { runJXA } = await import("../src/bridge/executor.js");
+
+/** Run a stub script; returns [value, pid] */
+async function run(script: string, timeout?: number, signal?: AbortSignal) {
+  const [value, pid] = (await runJXA(script, timeout, signal)).split("@");
+  return [value, pid] as const;
+}
+
+describe("JXA worker pool", () => {
+  after(() => rmSync(binDir, { recursive: true, force: true }));
+
+  it("reuses one worker for calls that do not overlap", async () => {
+    const [a, pidA] = await run("sleep:1:a");
+    const [b, pidB] = await run("sleep:1:b");
+    assert.deepEqual([a, b], ["a", "b"]);
+    assert.equal(pidA, pidB);
+  });
+
+  it("runs overlapping calls on separate workers", async () => {
+    const started = Date.now();
+    const results = await Promise.all([run("sleep:300:a"), run("sleep:300:b")]);
+    assert.deepEqual(
+      results.map(([value]) => value),
+      ["a", "b"],
+    );
+    assert.notEqual(results[0][1], results[1][1]);
+    assert.ok(Date.now() - started < 550, "calls ran one after the other");
+  });
+
+  it("queues calls beyond the pool size", async () => {
+    const results = await Promise.all(["a", "b", "c"].map((v) => run(`sleep:50:${v}`)));
+    assert.deepEqual(
+      results.map(([value]) => value),
+      ["a", "b", "c"],
+    );
+    assert.equal(new Set(results.map(([, pid]) => pid)).size, 2);
+  });
+
+  it("classifies script errors", async () => {
+    await assert.rejects(
+      runJXA("fail:boom"),
+      (err: unknown) =>
+        err instanceof BridgeError &&
+        err.kind === "script_error" &&
+        err.errorNumber === -2700,
+    );
+  });
+
+  it("times out and cancels a running script, then starts a fresh worker", async () => {
+    await assert.rejects(
+      runJXA("sleep:5000:slow", 50),
+      (err: unknown) => err instanceof BridgeError && err.kind === "timeout",
+    );
+
+    const abort = new AbortController();
+    setTimeout(() => abort.abort(new Error("cancelled")), 20);
+    await assert.rejects(run("sleep:5000:slow", undefined, abort.signal), /cancelled/);
+
+    const [value] = await run("sleep:1:after");
+    assert.equal(value, "after");
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * fake-backend.test.ts — The read-only DEVONthink API over the fixture backend
+ *
+ * Runs the same entry points the tools use (devonthink.ts), including paging
+ * cursors and typed errors, against examples/fixtures.
+ */
+
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { setBackend } from "../src/bridge/backend.js";
+import {
+  getRecordContent,
+  getRecordMetadata,
+  listDatabases,
+  listGroupContents,
+  searchRecords,
+} from "../src/bridge/devonthink.js";
+import { BridgeError } from "../src/bridge/errors.js";
+import { FakeBackend } from "../src/bridge/fake-backend.js";
+
+const RAG_PAPER = "Retrieval-Augmented Generation for Knowledge-Intensive NLP Tasks";
+
+describe("fake backend", () => {
+  before(() => setBackend(new FakeBackend("examples/fixtures")));
+
+  it("lists each fixture directory as a database", async () => {
+    const databases = await listDatabases();
+    assert.deepEqual(
+      databases.map((db) => [db.name, db.recordCount]),
+      [
+        ["Inbox", 1],
+        ["Research", 6],
+      ],
+    );
+  });
+
+  it("searches by relevance and reads records with front matter and JSON fields", async () => {
+    const found = await searchRecords("retrieval");
+    assert.equal(found.totalCount, 3);
+    assert.deepEqual(
+      found.results.map((r) => r.name),
+      [RAG_PAPER, "reading-list", "meeting-2024-05-14"],
+    );
+    assert.equal(found.nextCursor, undefined);
+
+    const paper = found.results[0];
+    assert.equal(paper.recordType, "PDF document");
+    assert.equal(paper.location, "/Papers/");
+    const meta = await getRecordMetadata(paper.uuid);
+    assert.deepEqual(meta.tags, ["rag", "retrieval", "nlp"]);
+    assert.equal(meta.rating, 4);
+    assert.equal(meta.database, "Research");
+
+    const content = await getRecordContent(paper.uuid, 40);
+    assert.equal(content.content, "Retrieval-augmented generation (RAG) com");
+    assert.equal(content.truncated, true);
+  });
+
+  it("applies structured filters", async () => {
+    const names = async (query: string, filters: Parameters<typeof searchRecords>[3]) =>
+      (await searchRecords(query, undefined, 10, filters)).results.map((r) => r.name);
+
+    assert.deepEqual(await names("retrieval", { kinds: ["pdf"] }), [RAG_PAPER]);
+    assert.deepEqual(await names("retrieval", { flagged: true }), ["reading-list"]);
+    assert.deepEqual((await names("", { tags: ["nlp"] })).sort(), [
+      RAG_PAPER,
+      "attention-is-all-you-need",
+    ]);
+    assert.deepEqual(await names("retrieval", { createdBefore: "2024-01-01" }), []);
+  });
+
+  it("pages through results with cursors, without overlap", async () => {
+    const first = await searchRecords("retrieval", undefined, 2);
+    assert.equal(first.results.length, 2);
+    assert.ok(first.nextCursor);
+
+    const second = await searchRecords("retrieval", undefined, 2, undefined, {
+      cursor: first.nextCursor,
+    });
+    assert.equal(second.offset, 2);
+    assert.deepEqual(
+      second.results.map((r) => r.name),
+      ["meeting-2024-05-14"],
+    );
+    assert.equal(second.nextCursor, undefined);
+
+    // A cursor only continues the request it came from
+    await assert.rejects(
+      searchRecords("attention", undefined, 2, undefined, { cursor: first.nextCursor }),
+      /different request/,
+    );
+    await assert.rejects(
+      listGroupContents(undefined, 2, { cursor: first.nextCursor }),
+      /different request/,
+    );
+  });
+
+  it("sorts by name on request", async () => {
+    const byName = await searchRecords("retrieval", undefined, 10, undefined, {
+      sort: "name",
+    });
+    assert.deepEqual(
+      byName.results.map((r) => r.name),
+      ["meeting-2024-05-14", "reading-list", RAG_PAPER],
+    );
+  });
+
+  it("lists the first database for an empty group uuid", async () => {
+    const inbox = await listGroupContents();
+    assert.equal(inbox.parentName, "Inbox");
+    assert.deepEqual(
+      inbox.children.map((c) => [c.name, c.recordType]),
+      [["welcome", "html"]],
+    );
+  });
+
+  it("throws typed errors for unknown records and databases", async () => {
+    await assert.rejects(
+      getRecordMetadata("00000000-0000-0000-0000-000000000000"),
+      (err: unknown) => err instanceof BridgeError && err.kind === "record_not_found",
+    );
+    await assert.rejects(
+      searchRecords("retrieval", "Archive"),
+      (err: unknown) => err instanceof BridgeError && err.kind === "database_not_found",
+    );
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * gemini-schema.test.ts — Tool schema conversion for Gemini
+ *
+ * Every tool definition must convert; the result may only use the subset of
+ * JSON Schema Gemini accepts, and unsupported constructs must fail loudly.
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { convertSchemaToGemini, type ToolDefinition } from "../src/agent/providers.js";
+import { getToolDefinitions } from "../src/agent/tools.js";
+
+const GEMINI_KEYS = new Set([
+  "type",
+  "format",
+  "description",
+  "nullable",
+  "enum",
+  "items",
+  "properties",
+  "required",
+  "title",
+  "pattern",
+  "default",
+  "minimum",
+  "maximum",
+  "minItems",
+  "maxItems",
+  "minLength",
+  "maxLength",
+  "minProperties",
+  "maxProperties",
+]);
+const GEMINI_TYPES = ["string", "number", "integer", "boolean", "array", "object"];
+
+/** Assert that a converted node (and everything below it) is valid Gemini schema */
+function assertGeminiNode(node: unknown, where: string): void {
+  assert.ok(node && typeof node === "object", `${where}: not an object`);
+  const schema = node as Record<string, unknown>;
+  for (const key of Object.keys(schema)) {
+    assert.ok(GEMINI_KEYS.has(key), `${where}: unexpected keyword "${key}"`);
+  }
+  assert.ok(GEMINI_TYPES.includes(schema.type as string), `${where}: bad type`);
+  if (schema.enum) {
+    assert.equal(schema.type, "string", `${where}: enum on a non-string`);
+    assert.equal(schema.format, "enum", `${where}: enum without format "enum"`);
+  }
+  if (schema.type === "array") assertGeminiNode(schema.items, `${where}[]`);
+  if (schema.type === "object") {
+    const properties = schema.properties as Record<string, unknown>;
+    assert.ok(properties, `${where}: object without properties`);
+    for (const [name, sub] of Object.entries(properties)) {
+      assertGeminiNode(sub, `${where}.${name}`);
+    }
+    for (const name of (schema.required as string[] | undefined) ?? []) {
+      assert.ok(name in properties, `${where}: requires undeclared "${name}"`);
+    }
+  }
+}
+
+function schemaOf(properties: Record<string, unknown>, extra: object = {}) {
+  return { type: "object", properties, ...extra } as ToolDefinition["input_schema"];
+}
+
+describe("convertSchemaToGemini", () => {
+  for (const tool of getToolDefinitions()) {
+    it(`converts ${tool.name}`, () => {
+      const converted = convertSchemaToGemini(tool.input_schema, tool.name);
+      assertGeminiNode(converted, tool.name);
+      assert.equal(converted.type, "object");
+      assert.deepEqual(
+        Object.keys(converted.properties),
+        Object.keys(tool.input_schema.properties),
+      );
+      assert.deepEqual(converted.required, tool.input_schema.required);
+    });
+  }
+
+  it("keeps search_records' array and enum filters", () => {
+    const tool = getToolDefinitions().find((t) => t.name === "search_records")!;
+    const { properties } = convertSchemaToGemini(tool.input_schema, tool.name);
+    assert.deepEqual(properties.kinds, {
+      type: "array",
+      description: "Only records of these kinds",
+      items: {
+        type: "string",
+        format: "enum",
+        enum: [
+          "pdf",
+          "markdown",
+          "text",
+          "html",
+          "webarchive",
+          "image",
+          "bookmark",
+          "sheet",
+        ],
+      },
+    });
+    assert.deepEqual(properties.tag_match, {
+      type: "string",
+      format: "enum",
+      enum: ["all", "any"],
+      description: "Require all of the tags (default) or any of them",
+    });
+  });
+
+  it("converts nested objects, arrays, enums and ranges", () => {
+    const converted = convertSchemaToGemini(
+      schemaOf(
+        {
+          filter: {
+            type: "object",
+            properties: {
+              mode: { enum: ["fast", "deep"] },
+              level: { const: "strict" },
+              since: { type: ["string", "null"], format: "date-time" },
+            },
+            required: ["mode"],
+          },
+          pages: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { page: { type: "integer", minimum: 1, format: "int32" } },
+            },
+            maxItems: 5,
+          },
+          ratio: { type: "number", maximum: 1, default: 0.5, title: "Ratio" },
+        },
+        { required: ["filter"] },
+      ),
+      "nested",
+    );
+    assert.deepEqual(converted, {
+      type: "object",
+      properties: {
+        filter: {
+          type: "object",
+          properties: {
+            mode: { type: "string", format: "enum", enum: ["fast", "deep"] },
+            level: { type: "string", format: "enum", enum: ["strict"] },
+            since: { type: "string", nullable: true, format: "date-time" },
+          },
+          required: ["mode"],
+        },
+        pages: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { page: { type: "integer", minimum: 1, format: "int32" } },
+          },
+          maxItems: 5,
+        },
+        ratio: { type: "number", maximum: 1, default: 0.5, title: "Ratio" },
+      },
+      required: ["filter"],
+    });
+  });
+
+  it("drops documentation keywords, unknown formats and additionalProperties: false", () => {
+    const converted = convertSchemaToGemini(
+      schemaOf(
+        {
+          url: {
+            type: "string",
+            format: "uri",
+            examples: ["https://example.com"],
+            $comment: "any URL",
+          },
+        },
+        {
+          $schema: "http://json-schema.org/draft-07/schema#",
+          additionalProperties: false,
+        },
+      ),
+      "dropped",
+    );
+    assert.deepEqual(converted, {
+      type: "object",
+      properties: { url: { type: "string" } },
+    });
+  });
+
+  it("rejects constructs Gemini cannot express, naming tool and path", () => {
+    const cases: Array<[Record<string, unknown>, RegExp]> = [
+      [
+        { a: { anyOf: [{ type: "string" }, { type: "number" }] } },
+        /tool "bad" schema at "a" uses unsupported keyword "anyOf"/,
+      ],
+      [{ a: { $ref: "#/definitions/x" } }, /"\$ref"/],
+      [{ a: { type: ["string", "number"] } }, /union type/],
+      [{ a: { type: "null" } }, /unsupported type "null"/],
+      [{ a: { type: "array" } }, /at "a" is an array without "items"/],
+      [
+        { a: { type: "object", properties: {}, additionalProperties: true } },
+        /additionalProperties/,
+      ],
+      [{ a: { type: "number", enum: [1, 2] } }, /"enum" must list strings only/],
+      [{ a: { type: "string", minimum: "1" } }, /non-numeric "minimum"/],
+      [{ a: { type: "string", uniqueItems: true } }, /unsupported keyword "uniqueItems"/],
+      [
+        {
+          a: { type: "array", items: { type: "object", properties: { b: { not: {} } } } },
+        },
+        /at "a\[\]\.b" uses unsupported keyword "not"/,
+      ],
+    ];
+    for (const [properties, error] of cases) {
+      assert.throws(() => convertSchemaToGemini(schemaOf(properties), "bad"), error);
+    }
+    assert.throws(
+      () =>
+        convertSchemaToGemini(schemaOf({ a: { type: "string" } }, { required: ["b"] })),
+      /requires undeclared properties: b/,
+    );
+    assert.throws(
+      () =>
+        convertSchemaToGemini({
+          type: "string",
+        } as unknown as ToolDefinition["input_schema"]),
+      /must be of type "object"/,
+    );
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * models.test.ts — Model catalog loading, user overrides and lookups
+ *
+ * HOME points at a temporary directory holding ~/.dt-agent/models.json, so the
+ * bundled catalog is merged with a known override file.
+ */
+
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const home = mkdtempSync(join(tmpdir(), "dt-agent-models-"));
+mkdirSync(join(home, ".dt-agent"));
+writeFileSync(
+  join(home, ".dt-agent", "models.json"),
+  JSON.stringify({
+    defaults: { local: "qwen2.5" },
+    models: {
+      "gpt-4o": { pricing: { input: 2 } },
+      "claude-3-5-haiku-latest": { vision: true },
+      "qwen2.5": { provider: "local", contextWindow: 32768, maxOutput: 8192 },
+      "text-only": {
+        provider: "openai",
+        contextWindow: 4096,
+        maxOutput: 1024,
+        tools: false,
+      },
+    },
+  }),
+);
+process.env.HOME = home;
+// Imported after HOME is set: the catalog reads ~/.dt-agent/models.json on first use
+const { getCatalogDefault, getModelInfo, listModels, supportsVision, validateModel } =
+  await import("../src/agent/models.js");
+
+describe("model catalog", () => {
+  after(() => rmSync(home, { recursive: true, force: true }));
+
+  it("merges single override fields into bundled entries", () => {
+    const info = getModelInfo("gpt-4o")!;
+    assert.deepEqual(info.pricing, { input: 2, output: 10, cacheRead: 1.25 });
+    assert.equal(info.contextWindow, 128000);
+    assert.equal(supportsVision("claude-3-5-haiku-latest"), true);
+  });
+
+  it("adds user models with defaults for omitted capabilities", () => {
+    assert.deepEqual(getModelInfo("qwen2.5"), {
+      id: "qwen2.5",
+      provider: "local",
+      contextWindow: 32768,
+      maxOutput: 8192,
+      pricing: undefined,
+      tools: true,
+      vision: false,
+      streaming: true,
+      api: "chat",
+    });
+    assert.equal(getCatalogDefault("local"), "qwen2.5");
+    assert.equal(getCatalogDefault("anthropic"), "claude-sonnet-4-20250514");
+    assert.ok(listModels("local").some((m) => m.id === "qwen2.5"));
+    assert.ok(listModels("local").every((m) => m.provider === "local"));
+  });
+
+  it("resolves dated and tagged variants to the longest matching id", () => {
+    assert.equal(getModelInfo("gpt-4o-2024-08-06")?.id, "gpt-4o");
+    assert.equal(getModelInfo("gpt-4o-mini-2024-07-18")?.id, "gpt-4o-mini");
+    assert.equal(getModelInfo("llama3.1:8b")?.id, "llama3.1");
+    assert.equal(getModelInfo("gpt-4ox"), undefined);
+  });
+
+  it("validates models against the provider and tool support", () => {
+    assert.equal(validateModel("openai", "gpt-4o"), null);
+    assert.equal(validateModel("openai", "not-in-catalog"), null);
+    assert.match(validateModel("anthropic", "gpt-4o")!, /belongs to openai/);
+    assert.equal(validateModel("local", "gpt-4o"), null);
+    assert.match(validateModel("openai", "text-only")!, /does not support tool calling/);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * pagination.test.ts — Offsets, sort orders and cursors for paged tools
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { nextCursor, requestKey, resolvePage } from "../src/bridge/pagination.js";
+
+const key = requestKey(["search", "ultrasound", null, {}]);
+
+/** A cursor as a client could forge it */
+function forge(data: object): string {
+  return Buffer.from(JSON.stringify(data)).toString("base64url");
+}
+
+describe("resolvePage", () => {
+  it("defaults to offset 0 and the tool's default sort", () => {
+    assert.deepEqual(resolvePage({}, key, "score"), { offset: 0, sort: "score" });
+    assert.deepEqual(resolvePage({ offset: 2.7, sort: "modified" }, key, "score"), {
+      offset: 2,
+      sort: "modified",
+    });
+  });
+
+  it("rejects sorts the tool does not offer and negative offsets", () => {
+    assert.throws(
+      () => resolvePage({ sort: "score" }, key, "name", ["name", "modified"]),
+      /Invalid sort "score" \(use name, modified\)/,
+    );
+    assert.throws(() => resolvePage({ offset: -1 }, key, "score"), /Invalid offset -1/);
+  });
+
+  it("continues from a cursor, which wins over offset and sort", () => {
+    const cursor = nextCursor(key, { offset: 0, sort: "name" }, 20, 45)!;
+    assert.deepEqual(resolvePage({ cursor, offset: 5, sort: "score" }, key, "score"), {
+      offset: 20,
+      sort: "name",
+    });
+  });
+
+  it("rejects cursors from another request, with a disallowed sort, or malformed", () => {
+    const other = nextCursor(
+      requestKey(["search", "other"]),
+      { offset: 0, sort: "score" },
+      20,
+      45,
+    );
+    assert.throws(
+      () => resolvePage({ cursor: other }, key, "score"),
+      /different request/,
+    );
+
+    const scoreCursor = forge({ k: key, o: 20, s: "score" });
+    assert.throws(
+      () => resolvePage({ cursor: scoreCursor }, key, "name", ["name", "modified"]),
+      /Invalid cursor/,
+    );
+    assert.throws(
+      () => resolvePage({ cursor: forge({ k: key, o: -5, s: "name" }) }, key, "name"),
+      /Invalid cursor/,
+    );
+    assert.throws(
+      () => resolvePage({ cursor: "not a cursor" }, key, "name"),
+      /Invalid cursor/,
+    );
+  });
+});
+
+describe("nextCursor", () => {
+  it("is absent on the last page and for empty pages", () => {
+    const page = { offset: 40, sort: "score" as const };
+    assert.equal(nextCursor(key, page, 5, 45), undefined);
+    assert.equal(nextCursor(key, page, 0, 45), undefined);
+    assert.ok(nextCursor(key, page, 4, 45));
+  });
+});
+
+describe("requestKey", () => {
+  it("is stable for the same parameters and differs otherwise", () => {
+    assert.equal(requestKey(["group", "abc"]), requestKey(["group", "abc"]));
+    assert.notEqual(requestKey(["group", "abc"]), requestKey(["group", "abd"]));
+  });
+});
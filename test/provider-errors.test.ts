@@ -0,0 +1,110 @@
+/**
+ * provider-errors.test.ts — Classification of LLM API failures
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import Anthropic from "@anthropic-ai/sdk";
+import OpenAI from "openai";
+import { GoogleGenerativeAIFetchError } from "@google/generative-ai";
+import { classifyError, ProviderError, toProviderError } from "../src/agent/providers.js";
+
+describe("classifyError", () => {
+  it("maps HTTP statuses to error kinds", () => {
+    assert.equal(classifyError(401, "invalid x-api-key"), "auth");
+    assert.equal(classifyError(403, "forbidden"), "auth");
+    assert.equal(classifyError(402, "payment required"), "quota");
+    assert.equal(classifyError(429, "rate limit exceeded"), "rate_limit");
+    assert.equal(classifyError(408, "request timeout"), "network");
+    assert.equal(classifyError(500, "internal error"), "overloaded");
+    assert.equal(classifyError(529, "Overloaded"), "overloaded");
+    assert.equal(classifyError(400, "tools.0.name: invalid"), "invalid_request");
+  });
+
+  it("refines the status with the message", () => {
+    assert.equal(
+      classifyError(429, "You exceeded your current quota, please check your plan"),
+      "quota",
+    );
+    assert.equal(
+      classifyError(400, "Your credit balance is too low to access the API"),
+      "quota",
+    );
+    assert.equal(
+      classifyError(400, "prompt is too long: 210000 tokens > 200000"),
+      "context_length",
+    );
+    assert.equal(
+      classifyError(400, "This model's maximum context length is 128000 tokens"),
+      "context_length",
+    );
+  });
+
+  it("classifies status-less errors only when the message is recognizable", () => {
+    assert.equal(classifyError(undefined, "overloaded_error: Overloaded"), "overloaded");
+    assert.equal(classifyError(undefined, "fetch failed"), "network");
+    assert.equal(classifyError(undefined, "read ECONNRESET"), "network");
+    assert.equal(
+      classifyError(undefined, "Cannot read properties of undefined"),
+      undefined,
+    );
+  });
+});
+
+describe("toProviderError", () => {
+  it("keeps the status and Retry-After of SDK errors", () => {
+    const err = toProviderError(
+      new Anthropic.APIError(
+        429,
+        undefined,
+        "rate limited",
+        new Headers({ "retry-after": "3" }),
+      ),
+      "anthropic",
+    );
+    assert.ok(err instanceof ProviderError);
+    assert.equal(err.kind, "rate_limit");
+    assert.equal(err.provider, "anthropic");
+    assert.equal(err.status, 429);
+    assert.equal(err.retryAfterMs, 3000);
+
+    const openai = toProviderError(
+      new OpenAI.APIError(
+        503,
+        undefined,
+        "busy",
+        new Headers({ "retry-after-ms": "250" }),
+      ),
+      "openai",
+    ) as ProviderError;
+    assert.equal(openai.kind, "overloaded");
+    assert.equal(openai.retryAfterMs, 250);
+  });
+
+  it("reads Gemini's RetryInfo delay", () => {
+    const err = toProviderError(
+      new GoogleGenerativeAIFetchError("quota", 429, "Too Many Requests", [
+        { "@type": "type.googleapis.com/google.rpc.RetryInfo", retryDelay: "17s" },
+      ]),
+      "gemini",
+    ) as ProviderError;
+    assert.equal(err.kind, "rate_limit");
+    assert.equal(err.retryAfterMs, 17_000);
+  });
+
+  it("classifies connection failures as network errors", () => {
+    const err = toProviderError(
+      new OpenAI.APIConnectionError({ message: "Connection error." }),
+      "openai",
+    );
+    assert.ok(err instanceof ProviderError);
+    assert.equal(err.kind, "network");
+  });
+
+  it("passes aborts and non-API errors through unchanged", () => {
+    const abort = new Anthropic.APIUserAbortError();
+    assert.equal(toProviderError(abort, "anthropic"), abort);
+    const bug = new TypeError("Cannot read properties of undefined");
+    assert.equal(toProviderError(bug, "openai"), bug);
+  });
+});
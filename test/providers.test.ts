@@ -0,0 +1,51 @@
+/**
+ * providers.test.ts — Provider helpers that need no network
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fitReasoningBudget } from "../src/agent/providers.js";
+
+describe("fitReasoningBudget", () => {
+  it("adds the budget to the output limit when the model has room", () => {
+    assert.deepEqual(fitReasoningBudget("claude-sonnet-4-20250514", 4096, 8000, 1024), {
+      maxOutput: 12096,
+      budget: 8000,
+    });
+  });
+
+  it("clamps to the catalog maxOutput by shrinking the budget", () => {
+    // claude-3-5-sonnet-latest: 8192 max output
+    assert.deepEqual(fitReasoningBudget("claude-3-5-sonnet-latest", 4096, 8000, 1024), {
+      maxOutput: 8192,
+      budget: 4096,
+    });
+    assert.deepEqual(fitReasoningBudget("claude-3-5-sonnet-latest", 8192, 4096, 1024), {
+      maxOutput: 8192,
+      budget: 1024,
+    });
+    assert.deepEqual(fitReasoningBudget("gemini-2.0-flash", 8192, 2048), {
+      maxOutput: 8192,
+      budget: 0,
+    });
+  });
+
+  it("drops thinking when the minimum budget does not fit", () => {
+    // mock: 4096 max output
+    assert.deepEqual(fitReasoningBudget("mock", 4096, 4096, 4096), {
+      maxOutput: 4096,
+      budget: 0,
+    });
+  });
+
+  it("leaves unknown models and disabled thinking alone", () => {
+    assert.deepEqual(fitReasoningBudget("not-in-catalog", 4096, 2048), {
+      maxOutput: 6144,
+      budget: 2048,
+    });
+    assert.deepEqual(fitReasoningBudget("claude-3-5-sonnet-latest", 16000, 0), {
+      maxOutput: 8192,
+      budget: 0,
+    });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * search-filters.test.ts — Compiling, querying and post-filtering search filters
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  buildSearchQuery,
+  compileSearchFilters,
+  matchesFilters,
+  type FilterableRecord,
+  type RecordKind,
+} from "../src/bridge/search-filters.js";
+
+const record: FilterableRecord = {
+  recordType: "PDF document",
+  tags: ["Ultrasound", "review"],
+  created: new Date("2024-03-10T12:00:00Z"),
+  modified: new Date("2024-06-01T08:00:00Z"),
+  flagged: true,
+  unread: false,
+  rating: 3,
+};
+
+describe("compileSearchFilters", () => {
+  it("maps kinds to record types, lowercases tags and parses dates", () => {
+    assert.deepEqual(
+      compileSearchFilters({
+        kinds: ["pdf", "text"],
+        tags: [" Ultrasound ", ""],
+        createdAfter: "2024-01-01",
+        modifiedBefore: "2024-06-01T00:00:00Z",
+        flagged: true,
+        minRating: 2,
+      }),
+      {
+        tagMatch: "all",
+        recordTypes: ["PDF document", "txt", "rtf", "rtfd"],
+        tags: ["ultrasound"],
+        createdAfter: Date.parse("2024-01-01"),
+        createdBefore: undefined,
+        modifiedAfter: undefined,
+        modifiedBefore: Date.parse("2024-06-01T00:00:00Z"),
+        flagged: true,
+        minRating: 2,
+      },
+    );
+  });
+
+  it("rejects unknown kinds, bad dates, ratings and tag_match", () => {
+    assert.throws(
+      () => compileSearchFilters({ kinds: ["video" as RecordKind] }),
+      /Unknown record kind "video"/,
+    );
+    assert.throws(
+      () => compileSearchFilters({ createdAfter: "last week" }),
+      /Invalid created_after "last week"/,
+    );
+    assert.throws(() => compileSearchFilters({ minRating: 6 }), /Invalid min_rating 6/);
+    assert.throws(
+      () => compileSearchFilters({ tagMatch: "some" as "any" }),
+      /Invalid tag_match "some"/,
+    );
+  });
+});
+
+describe("buildSearchQuery", () => {
+  it("appends kind: and tags: prefixes, parenthesizing the user's query", () => {
+    assert.equal(
+      buildSearchQuery("liver OR spleen", { kinds: ["pdf"], tags: ["review"] }),
+      "(liver OR spleen) kind:pdf tags:review",
+    );
+    assert.equal(
+      buildSearchQuery("", { kinds: ["pdf", "markdown"] }),
+      "(kind:pdf OR kind:markdown)",
+    );
+  });
+
+  it("ORs tags for tag_match any and quotes tags that are not one word", () => {
+    assert.equal(
+      buildSearchQuery("liver", { tags: ["to read", 'say "hi"'], tagMatch: "any" }),
+      '(liver) (tags:"to read" OR tags:"say hi")',
+    );
+    assert.equal(
+      buildSearchQuery("liver", { tags: ["a", "b"] }),
+      "(liver) tags:a tags:b",
+    );
+  });
+
+  it("leaves a plain query alone and throws when there is nothing to search for", () => {
+    assert.equal(buildSearchQuery("  liver  "), "liver");
+    assert.throws(
+      () => buildSearchQuery(" ", { flagged: true }),
+      /Nothing to search for/,
+    );
+  });
+});
+
+describe("matchesFilters", () => {
+  const matches = (filters: Parameters<typeof compileSearchFilters>[0]) =>
+    matchesFilters(record, compileSearchFilters(filters));
+
+  it("accepts a record with no filters", () => {
+    assert.equal(matches({}), true);
+  });
+
+  it("checks kinds and tags (all or any, case-insensitive)", () => {
+    assert.equal(matches({ kinds: ["pdf"] }), true);
+    assert.equal(matches({ kinds: ["markdown"] }), false);
+    assert.equal(matches({ tags: ["ULTRASOUND", "review"] }), true);
+    assert.equal(matches({ tags: ["ultrasound", "liver"] }), false);
+    assert.equal(matches({ tags: ["ultrasound", "liver"], tagMatch: "any" }), true);
+    assert.equal(matches({ tags: ["liver"], tagMatch: "any" }), false);
+  });
+
+  it("treats after as inclusive and before as exclusive", () => {
+    assert.equal(matches({ createdAfter: "2024-03-10T12:00:00Z" }), true);
+    assert.equal(matches({ createdBefore: "2024-03-10T12:00:00Z" }), false);
+    assert.equal(matches({ modifiedAfter: "2024-06-02" }), false);
+    assert.equal(matches({ modifiedBefore: "2024-06-02" }), true);
+  });
+
+  it("checks flags and the minimum rating", () => {
+    assert.equal(matches({ flagged: true, unread: false, minRating: 3 }), true);
+    assert.equal(matches({ flagged: false }), false);
+    assert.equal(matches({ unread: true }), false);
+    assert.equal(matches({ minRating: 4 }), false);
+  });
+});
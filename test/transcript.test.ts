@@ -0,0 +1,156 @@
+/**
+ * transcript.test.ts — One neutral history, replayed by every provider
+ *
+ * A tool exchange recorded through the mock provider is sent on by the OpenAI
+ * and Anthropic providers (as after /model), against a local stub server that
+ * records each request body.
+ */
+
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  getProvider,
+  MockProvider,
+  type ProviderHistory,
+} from "../src/agent/providers.js";
+
+const OPENAI_REPLY = {
+  id: "chatcmpl-1",
+  object: "chat.completion",
+  created: 0,
+  model: "gpt-4o",
+  choices: [
+    {
+      index: 0,
+      finish_reason: "stop",
+      message: { role: "assistant", content: "Two databases." },
+    },
+  ],
+  usage: { prompt_tokens: 10, completion_tokens: 3, total_tokens: 13 },
+};
+
+const ANTHROPIC_REPLY = {
+  id: "msg_1",
+  type: "message",
+  role: "assistant",
+  model: "claude-sonnet-4-20250514",
+  content: [{ type: "text", text: "Two databases." }],
+  stop_reason: "end_turn",
+  usage: { input_tokens: 10, output_tokens: 3 },
+};
+
+describe("provider-neutral transcript", () => {
+  const requests: Array<{ url: string; body: { messages: unknown[] } }> = [];
+  let server: Server;
+  let history: ProviderHistory;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        requests.push({ url: req.url ?? "", body: JSON.parse(body) });
+        res.setHeader("content-type", "application/json");
+        const reply = req.url?.endsWith("/chat/completions")
+          ? OPENAI_REPLY
+          : ANTHROPIC_REPLY;
+        res.end(JSON.stringify(reply));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    process.env.OPENAI_API_KEY = "test";
+    process.env.OPENAI_BASE_URL = `${base}/v1`;
+    process.env.ANTHROPIC_API_KEY = "test";
+    process.env.ANTHROPIC_BASE_URL = base;
+
+    // user → assistant text + tool call → tool result, recorded by the mock
+    const mock = new MockProvider({
+      responses: [
+        { text: "Looking.", toolCalls: [{ id: "tc-1", name: "list_databases" }] },
+      ],
+    });
+    history = mock.createHistory();
+    mock.pushUserMessage(history, "Which databases do I have?");
+    const response = await mock.chat(history, "system", [], "mock", 100);
+    mock.pushAssistantToolUse(history, response);
+    mock.pushToolResults(history, [
+      { toolCallId: "tc-1", output: '["Inbox","Research"]' },
+    ]);
+  });
+
+  after(() => server.close());
+
+  it("records the exchange in neutral form", () => {
+    // JSON round trip: unset optional fields (e.g. providerData) are dropped
+    assert.deepEqual(JSON.parse(JSON.stringify(history._messages)), [
+      { role: "user", text: "Which databases do I have?" },
+      {
+        role: "assistant",
+        text: "Looking.",
+        toolCalls: [{ id: "tc-1", name: "list_databases", input: {} }],
+      },
+      {
+        role: "tool",
+        results: [
+          { toolCallId: "tc-1", name: "list_databases", output: '["Inbox","Research"]' },
+        ],
+      },
+    ]);
+  });
+
+  it("continues on OpenAI with tool_calls and a tool message", async () => {
+    const reply = await getProvider("openai").chat(history, "system", [], "gpt-4o", 100);
+    assert.equal(reply.text, "Two databases.");
+    assert.deepEqual(requests.at(-1)?.body.messages, [
+      { role: "system", content: "system" },
+      { role: "user", content: "Which databases do I have?" },
+      {
+        role: "assistant",
+        content: "Looking.",
+        tool_calls: [
+          {
+            id: "tc-1",
+            type: "function",
+            function: { name: "list_databases", arguments: "{}" },
+          },
+        ],
+      },
+      { role: "tool", tool_call_id: "tc-1", content: '["Inbox","Research"]' },
+    ]);
+  });
+
+  it("continues on Anthropic with tool_use and tool_result blocks", async () => {
+    const reply = await getProvider("anthropic").chat(
+      history,
+      "system",
+      [],
+      "claude-sonnet-4-20250514",
+      100,
+    );
+    assert.equal(reply.text, "Two databases.");
+    assert.deepEqual(requests.at(-1)?.body.messages, [
+      { role: "user", content: "Which databases do I have?" },
+      {
+        role: "assistant",
+        content: [
+          { type: "text", text: "Looking." },
+          { type: "tool_use", id: "tc-1", name: "list_databases", input: {} },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          {
+            type: "tool_result",
+            tool_use_id: "tc-1",
+            content: '["Inbox","Research"]',
+            cache_control: { type: "ephemeral" },
+          },
+        ],
+      },
+    ]);
+  });
+});